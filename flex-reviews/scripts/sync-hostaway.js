@@ -0,0 +1,30 @@
+// scripts/sync-hostaway.js
+// Trigger an incremental Hostaway → review store sync on a running app.
+//   node scripts/sync-hostaway.js [--full]
+// Env: SYNC_URL (default http://localhost:3000), SYNC_SECRET (if the app requires one)
+
+const base = process.env.SYNC_URL || 'http://localhost:3000';
+const full = process.argv.includes('--full');
+
+async function main() {
+  const url = new URL('/api/sync', base);
+  if (full) url.searchParams.set('full', '1');
+
+  const headers = {};
+  if (process.env.SYNC_SECRET) headers.Authorization = `Bearer ${process.env.SYNC_SECRET}`;
+
+  const res = await fetch(url, { method: 'POST', headers });
+  const json = await res.json().catch(() => ({}));
+  const r = json.result || {};
+  if (!res.ok) {
+    console.error(`Sync failed (${res.status}):`, json.message || (r.errors || []).join('; '));
+    process.exit(1);
+  }
+  console.log(
+    `Synced from ${r.source}: fetched ${r.fetched}, changed ${r.changed} ` +
+    `(+${r.inserted} new, ${r.updated} updated), watermark ${new Date(r.watermark).toISOString()}`
+  );
+  if (r.errors && r.errors.length) console.warn('Warnings:', r.errors.join('; '));
+}
+
+main().catch((e) => { console.error(e); process.exit(1); });
@@ -0,0 +1,76 @@
+// src/app/api/alerts/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api-response";
+import { loadAlerts, setAlertState, type AlertState } from "@/lib/alerts";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+const DEFAULT_SNOOZE_HOURS = 24;
+const MAX_SNOOZE_HOURS = 24 * 90;
+
+/** `asOf` re-runs the rolling windows at a past date (handy for backfills and the mock data). */
+function parseAsOf(v: unknown): number | null | "invalid" {
+  if (v == null || v === "") return null;
+  const t = typeof v === "string" ? Date.parse(v) : NaN;
+  return Number.isNaN(t) ? "invalid" : t;
+}
+
+// GET /api/alerts?asOf=2025-06-30&status=active
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const asOf = parseAsOf(searchParams.get("asOf"));
+  if (asOf === "invalid") {
+    return apiError(400, "asOf must be a date", "asOf");
+  }
+  const status = searchParams.get("status");
+
+  const asOfMs = asOf ?? Date.now();
+  const { alerts } = await loadAlerts(asOfMs);
+  const result = status ? alerts.filter(a => a.status === status) : alerts;
+
+  return NextResponse.json({
+    status: "success",
+    result,
+    active: alerts.filter(a => a.status === "active").length,
+    asOf: new Date(asOfMs).toISOString(),
+  });
+}
+
+// PUT /api/alerts  { id, action: "acknowledge" | "snooze" | "reopen", hours?, asOf? }
+export async function PUT(req: NextRequest) {
+  let payload: { id?: unknown; action?: unknown; hours?: unknown; asOf?: unknown };
+  try { payload = await req.json(); } catch { return apiError(400, "Body must be JSON"); }
+
+  const { id, action, hours = DEFAULT_SNOOZE_HOURS } = payload ?? {};
+  if (typeof id !== "string" || !id) return apiError(400, "`id` is required", "id");
+  if (action !== "acknowledge" && action !== "snooze" && action !== "reopen") {
+    return apiError(400, '`action` must be "acknowledge", "snooze" or "reopen"', "action");
+  }
+
+  if (action === "reopen") {
+    await setAlertState(id, null);
+    return NextResponse.json({ status: "success", result: { id, status: "active" } });
+  }
+
+  if (typeof hours !== "number" || hours <= 0 || hours > MAX_SNOOZE_HOURS) {
+    return apiError(400, `\`hours\` must be between 0 and ${MAX_SNOOZE_HOURS}`, "hours");
+  }
+  const asOf = parseAsOf(payload.asOf);
+  if (asOf === "invalid") return apiError(400, "`asOf` must be a date", "asOf");
+
+  // Only a currently firing alert can be acknowledged (its reviews are recorded)
+  const { alerts } = await loadAlerts(asOf ?? Date.now());
+  const alert = alerts.find(a => a.id === id);
+  if (!alert) {
+    return apiError(404, "Alert is not firing");
+  }
+
+  const now = new Date();
+  const state: AlertState = action === "acknowledge"
+    ? { status: "acknowledged", at: now.toISOString(), reviewIds: alert.reviewIds }
+    : { status: "snoozed", at: now.toISOString(), until: new Date(now.getTime() + hours * 3_600_000).toISOString() };
+  await setAlertState(id, state);
+
+  return NextResponse.json({ status: "success", result: { ...alert, status: state.status, state } });
+}
@@ -0,0 +1,31 @@
+// src/app/api/alerts/rules/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api-response";
+import { validateRule } from "@/lib/alert-rules";
+import { deleteRule, getRules, saveRule } from "@/lib/alerts";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+// GET /api/alerts/rules
+export async function GET() {
+  return NextResponse.json({ status: "success", result: await getRules() });
+}
+
+// PUT /api/alerts/rules  { id?, name, kind, metric, threshold, windowDays, minCount?, listing?, perListing?, enabled? }
+export async function PUT(req: NextRequest) {
+  let payload: unknown;
+  try { payload = await req.json(); } catch { return apiError(400, "Body must be JSON"); }
+
+  const checked = validateRule(payload);
+  if ("error" in checked) return apiError(400, checked.error);
+  return NextResponse.json({ status: "success", result: await saveRule(checked.rule) });
+}
+
+// DELETE /api/alerts/rules?id=cleanliness-30d
+export async function DELETE(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const id = searchParams.get("id");
+  if (!id) return apiError(400, "`id` is required", "id");
+  return NextResponse.json({ status: "success", result: await deleteRule(id) });
+}
@@ -0,0 +1,54 @@
+// src/app/api/google/places/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api-response";
+import {
+  deletePlaceMapping,
+  listPlaceHealth,
+  placeHealth,
+  placeIdProblem,
+  placeLookupMode,
+  savePlaceMapping,
+  verifyPlaceMapping,
+} from "@/lib/google-places";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+// GET /api/google/places — every listing with its Place mapping and health
+export async function GET() {
+  return NextResponse.json({ status: "success", result: await listPlaceHealth(), mode: placeLookupMode() });
+}
+
+// PUT /api/google/places  { listing, placeId, placeName?, address?, verify?, mock? }
+// Adds or replaces a mapping; `verify` checks the ID against Place Details right away.
+export async function PUT(req: NextRequest) {
+  let payload: { listing?: unknown; placeId?: unknown; placeName?: unknown; address?: unknown; verify?: unknown; mock?: unknown };
+  try { payload = await req.json(); } catch { return apiError(400, "Body must be JSON"); }
+
+  const { listing, placeId, placeName, address, verify = false, mock = false } = payload ?? {};
+  if (typeof listing !== "string" || !listing.trim()) return apiError(400, "`listing` is required", "listing");
+  if (typeof placeId !== "string" || !placeId.trim()) return apiError(400, "`placeId` is required", "placeId");
+  const problem = placeIdProblem(placeId.trim());
+  if (problem) return apiError(400, `Invalid \`placeId\`: ${problem}`, "placeId");
+  if (placeName !== undefined && typeof placeName !== "string") return apiError(400, "`placeName` must be a string", "placeName");
+  if (address !== undefined && typeof address !== "string") return apiError(400, "`address` must be a string", "address");
+
+  const saved = await savePlaceMapping(listing, { placeId: placeId.trim(), placeName, address });
+  if (!verify) return NextResponse.json({ status: "success", result: placeHealth(listing, saved[listing]) });
+  try {
+    return NextResponse.json({ status: "success", result: await verifyPlaceMapping(listing, placeLookupMode(mock === true)) });
+  } catch (e) {
+    // Saved either way; verification can be retried from POST /api/google/places/verify
+    const message = e instanceof Error ? e.message : String(e);
+    return NextResponse.json({ status: "success", result: placeHealth(listing, saved[listing]), warnings: [`Verification failed: ${message}`] });
+  }
+}
+
+// DELETE /api/google/places?listing=… — the listing goes back to unmapped
+export async function DELETE(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const listing = searchParams.get("listing");
+  if (!listing) return apiError(400, "`listing` is required", "listing");
+  await deletePlaceMapping(listing);
+  return NextResponse.json({ status: "success", result: placeHealth(listing, undefined) });
+}
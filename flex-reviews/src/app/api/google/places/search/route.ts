@@ -0,0 +1,23 @@
+// src/app/api/google/places/search/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api-response";
+import { findPlaces, placeLookupMode } from "@/lib/google-places";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+// GET /api/google/places/search?q=Shoreditch+Heights[&mock=1]
+// Places Text Search candidates; answered from the mock places without an API key or with mock=1.
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const q = (searchParams.get("q") ?? "").trim();
+  if (!q) return apiError(400, "`q` is required", "q");
+
+  const mode = placeLookupMode(searchParams.get("mock") === "1");
+  try {
+    return NextResponse.json({ status: "success", result: await findPlaces(q, mode), mode });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return apiError(502, `Place search failed: ${message}`);
+  }
+}
@@ -0,0 +1,23 @@
+// src/app/api/google/places/verify/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api-response";
+import { placeLookupMode, verifyPlaceMapping } from "@/lib/google-places";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+// POST /api/google/places/verify  { listing, mock? }
+// Checks the listing's mapped ID against Place Details and records the outcome.
+export async function POST(req: NextRequest) {
+  let payload: { listing?: unknown; mock?: unknown };
+  try { payload = await req.json(); } catch { return apiError(400, "Body must be JSON"); }
+  const { listing, mock = false } = payload ?? {};
+  if (typeof listing !== "string" || !listing) return apiError(400, "`listing` is required", "listing");
+
+  try {
+    return NextResponse.json({ status: "success", result: await verifyPlaceMapping(listing, placeLookupMode(mock === true)) });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    return apiError(502, `Verification failed: ${message}`);
+  }
+}
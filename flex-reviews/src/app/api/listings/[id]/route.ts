@@ -0,0 +1,17 @@
+// src/app/api/listings/[id]/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api-response";
+import { getListing } from "@/lib/listings";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+// GET /api/listings/:id — one listing by its Hostaway ID
+export async function GET(_req: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id } = await params;
+  if (!/^\d+$/.test(id)) return apiError(400, "id must be a numeric listing ID", "id");
+
+  const listing = await getListing(Number(id));
+  if (!listing) return apiError(404, `Listing ${id} not found`);
+  return NextResponse.json({ status: "success", result: listing });
+}
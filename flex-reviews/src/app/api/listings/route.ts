@@ -0,0 +1,20 @@
+// src/app/api/listings/route.ts
+import { NextResponse } from "next/server";
+import { getListings } from "@/lib/listings";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+// GET /api/listings — the listings catalog (Hostaway, or the bundled mock)
+export async function GET() {
+  const { listings, mode, errors } = await getListings();
+  return NextResponse.json(
+    {
+      status: "success",
+      result: listings,
+      total: listings.length,
+      ...(errors.length ? { warnings: errors } : {}),
+    },
+    { headers: { "x-source": mode } }
+  );
+}
@@ -0,0 +1,46 @@
+// src/app/api/notifications/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api-response";
+import { deliverNotifications, getOutbox, notificationConfig } from "@/lib/notifications";
+import { getNotificationChannels } from "@/lib/notify-channels";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+// Same cron secret as /api/sync: `Authorization: Bearer <SYNC_SECRET>`
+const SYNC_SECRET = process.env.SYNC_SECRET;
+
+function authorized(req: NextRequest): boolean {
+  if (!SYNC_SECRET) return true;
+  return req.headers.get("authorization") === `Bearer ${SYNC_SECRET}`;
+}
+
+// GET /api/notifications — config, channels and the outbox (newest first)
+export async function GET() {
+  const box = await getOutbox();
+  const channels = getNotificationChannels().map(c => c.name);
+  const entries = Object.values(box.entries).sort((a, b) => b.queuedAt.localeCompare(a.queuedAt));
+  return NextResponse.json({
+    status: "success",
+    result: {
+      ...notificationConfig(),
+      channels,
+      lastDigestAt: box.lastDigestAt,
+      pending: entries.filter(e => channels.some(c => !e.delivered[c])).length,
+      entries,
+    },
+  });
+}
+
+// POST /api/notifications[?digest=1] — deliver queued notifications now (a daily cron for digest mode)
+export async function POST(req: NextRequest) {
+  if (!authorized(req)) {
+    return apiError(401, "Unauthorized");
+  }
+  const { searchParams } = new URL(req.url);
+  const result = await deliverNotifications({ forceDigest: searchParams.get("digest") === "1" });
+  return NextResponse.json(
+    { status: result.failed ? "error" : "success", result },
+    { status: result.failed ? 502 : 200 }
+  );
+}
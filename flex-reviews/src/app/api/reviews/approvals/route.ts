@@ -0,0 +1,66 @@
+// src/app/api/reviews/approvals/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api-response";
+import { deleteApproval, getApprovals, setApprovals, type ApprovalMap } from "@/lib/approvals";
+import { revalidatePublicPages } from "@/lib/public-reviews";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+// GET /api/reviews/approvals[?id=7001,7002]
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const ids = (searchParams.get("id") || "").split(",").map(s => s.trim()).filter(Boolean);
+
+  const all = await getApprovals();
+  if (ids.length === 0) {
+    return NextResponse.json({ status: "success", result: all });
+  }
+  const result: ApprovalMap = {};
+  for (const id of ids) {
+    if (id in all) result[id] = all[id];
+  }
+  return NextResponse.json({ status: "success", result });
+}
+
+// PUT /api/reviews/approvals  { id, approved }  or  { approvals: { [id]: boolean } }
+export async function PUT(req: NextRequest) {
+  let body: unknown;
+  try { body = await req.json(); } catch { return apiError(400, "Body must be JSON"); }
+  if (typeof body !== "object" || body === null) return apiError(400, "Body must be an object");
+
+  const { id, approved, approvals } = body as {
+    id?: unknown;
+    approved?: unknown;
+    approvals?: unknown;
+  };
+
+  const changes: ApprovalMap = {};
+  if (approvals !== undefined) {
+    if (typeof approvals !== "object" || approvals === null) {
+      return apiError(400, "`approvals` must be an object of id → boolean", "approvals");
+    }
+    for (const [k, v] of Object.entries(approvals)) {
+      if (typeof v !== "boolean") return apiError(400, `approvals.${k} must be a boolean`, "approvals");
+      changes[k] = v;
+    }
+  } else {
+    if (typeof id !== "string" && typeof id !== "number") return apiError(400, "`id` is required", "id");
+    if (typeof approved !== "boolean") return apiError(400, "`approved` must be a boolean", "approved");
+    changes[String(id)] = approved;
+  }
+
+  const result = await setApprovals(changes);
+  revalidatePublicPages();
+  return NextResponse.json({ status: "success", result });
+}
+
+// DELETE /api/reviews/approvals?id=7001 — forget the decision, falling back to the source flag
+export async function DELETE(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const id = searchParams.get("id");
+  if (!id) return apiError(400, "`id` is required", "id");
+  const result = await deleteApproval(id);
+  revalidatePublicPages();
+  return NextResponse.json({ status: "success", result });
+}
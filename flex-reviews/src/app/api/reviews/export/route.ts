@@ -0,0 +1,63 @@
+// src/app/api/reviews/export/route.ts
+// Downloads the filtered set /api/reviews/hostaway would return (all pages, same sort),
+// or the full merged set of /api/reviews (imports included) with `include=google`.
+import { NextRequest, NextResponse } from "next/server";
+import { apiErrors } from "@/lib/api-response";
+import { applyApprovals, getApprovals } from "@/lib/approvals";
+import { loadStoredReviews } from "@/lib/hostaway-sync";
+import { applyReplies, getReplies } from "@/lib/replies";
+import { analyzeReviews } from "@/lib/review-analysis";
+import { EXPORT_FORMATS, exportFilename, exportStream, type ExportFormat } from "@/lib/review-export";
+import { parseReviewQuery, queryReviews, withDefaults, type QueryError, type Review } from "@/lib/review-query";
+import { loadAllReviews } from "@/lib/review-sources";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+// ---------- Main handler ----------
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const query = parseReviewQuery(searchParams);
+  const errors: QueryError[] = [...query.errors];
+
+  const format = (searchParams.get("format") || "csv").toLowerCase() as ExportFormat;
+  if (!Object.hasOwn(EXPORT_FORMATS, format)) {
+    errors.push({ param: "format", message: `format must be one of ${Object.keys(EXPORT_FORMATS).join(", ")}` });
+  }
+  const include = searchParams.get("include");
+  if (include && include !== "google") {
+    errors.push({ param: "include", message: 'include only accepts "google"' });
+  }
+  if (errors.length) {
+    return apiErrors(400, errors);
+  }
+
+  let raw: Review[];
+  let source: string;
+  if (include === "google") {
+    ({ rows: raw } = await loadAllReviews({
+      listing: query.listing,
+      channels: query.channels,
+      mock: searchParams.get("mock") === "1",
+    }));
+    source = "merged";
+  } else {
+    ({ rows: raw, source } = await loadStoredReviews());
+  }
+
+  let rows = withDefaults(raw);
+  rows = applyApprovals(rows, await getApprovals());
+  rows = applyReplies(rows, await getReplies());
+  rows = analyzeReviews(rows);
+  rows = queryReviews(rows, query);
+
+  return new NextResponse(exportStream(rows, format), {
+    headers: {
+      "Content-Type": EXPORT_FORMATS[format].contentType,
+      "Content-Disposition": `attachment; filename="${exportFilename(format)}"`,
+      "Cache-Control": "no-store",
+      "x-source": source,
+      "x-total-count": String(rows.length),
+    },
+  });
+}
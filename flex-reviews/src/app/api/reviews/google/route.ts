@@ -1,141 +1,62 @@
 // flex-reviews/src/app/api/reviews/google/route.ts
 import { NextResponse } from 'next/server';
-import fs from 'node:fs/promises';
-import path from 'node:path';
+import { apiErrors } from '@/lib/api-response';
+import { applyApprovals, getApprovals } from '@/lib/approvals';
+import { accumulateGoogleReviews, loadGooglePlaceSummary } from '@/lib/google';
+import { paginate, parsePageRequest } from '@/lib/pagination';
+import { withRatings } from '@/lib/ratings';
+import { analyzeReviews } from '@/lib/review-analysis';
+import { parseReviewQuery, queryReviews } from '@/lib/review-query';
+import { checkReviews, type QueryError, type Review } from '@/lib/schema';
 
 export const runtime = 'nodejs';
 export const revalidate = 0;
 
-/** ---- Types for the (New) Google Places API fields we actually use ---- */
-interface PlaceAuthorAttribution {
-  displayName?: string;
-  uri?: string;
-  photoUri?: string;
-}
-interface PlaceReview {
-  name?: string; // e.g. "places/PLACE_ID/reviews/REVIEW_ID"
-  text?: { text?: string };
-  rating?: number; // /5
-  publishTime?: string; // ISO
-  relativePublishTimeDescription?: string;
-  googleMapsUri?: string;
-  authorAttribution?: PlaceAuthorAttribution;
-}
-interface PlaceDetailsResponse {
-  displayName?: { text?: string };
-  googleMapsUri?: string;
-  rating?: number;
-  userRatingCount?: number;
-  reviews?: PlaceReview[];
-}
-
-/** ---- App's normalized shape ---- */
-type Normalized = {
-  id: number; // numeric for UI/local approvals
-  type: 'guest-to-host';
-  status: 'published';
-  rating: number | null; // /10 (Google is /5 → *2 and round)
-  publicReview: string;
-  reviewCategory: { category: string; rating: number | null }[];
-  submittedAt: string; // ISO string
-  guestName: string;
-  listingName: string;
-  channel: 'Google';
-  sourceUrl?: string;
-};
-
-function hashToInt(s: string) {
-  let h = 2166136261;
-  for (let i = 0; i < s.length; i++) h = (h ^ s.charCodeAt(i)) * 16777619;
-  return (h >>> 0) % 2147483647;
-}
-
 export async function GET(req: Request) {
-  const url = new URL(req.url);
-  const listing = url.searchParams.get('listing') || '';
-  const explicitPlaceId = url.searchParams.get('placeId') || '';
-  const useMock = url.searchParams.get('mock') === '1'; // <-- mock switch
-
-  // Resolve placeId from mapping file if not explicitly provided
-  let placeId = explicitPlaceId;
-  if (!placeId && listing) {
-    try {
-      const raw = await fs.readFile(path.join(process.cwd(), 'data', 'google-places.json'), 'utf8');
-      const map = JSON.parse(raw) as Record<string, string>;
-      placeId = map[listing] || '';
-    } catch {
-      // mapping file optional
-    }
-  }
-
-  // --- MOCK MODE: read local mock file and return normalized results ---
-  if (useMock) {
-    try {
-      const raw = await fs.readFile(path.join(process.cwd(), 'data', 'google-mock-reviews.json'), 'utf8');
-      const mockMap = JSON.parse(raw) as Record<string, Normalized[]>;
-      const result = (mockMap[listing] ?? []).slice(0, 5); // mirror Google’s max 5
-      return NextResponse.json({ status: 'success', result });
-    } catch {
-      return NextResponse.json({ status: 'success', result: [] });
-    }
+  const { searchParams } = new URL(req.url);
+  const query = parseReviewQuery(searchParams); // same filters/sorting as the other review routes
+  const pageReq = parsePageRequest(searchParams);
+  const errors: QueryError[] = [...query.errors];
+  if ('error' in pageReq) errors.push(pageReq.error);
+
+  const listing = searchParams.get('listing') || '';
+  const explicitPlaceId = searchParams.get('placeId') || '';
+  if (!listing && !explicitPlaceId) errors.push({ param: 'listing', message: 'listing (or placeId) is required' });
+  const windowStr = searchParams.get('mockWindow');
+  const mockWindow = windowStr ? Number(windowStr) : undefined;
+  if (mockWindow !== undefined && !(Number.isInteger(mockWindow) && mockWindow >= 0)) {
+    errors.push({ param: 'mockWindow', message: 'mockWindow must be a non-negative integer' });
   }
-
-  // Fail-soft: if no key or no placeId, return empty result (keeps UI happy)
-  const apiKey = process.env.GOOGLE_MAPS_API_KEY;
-  if (!apiKey || !placeId) {
-    return NextResponse.json({ status: 'success', result: [] });
-  }
-
-  // Request a minimal field mask (Place Details - New Places API)
-  const fields = [
-    'displayName',
-    'googleMapsUri',
-    'reviews.text',
-    'reviews.rating',
-    'reviews.publishTime',
-    'reviews.googleMapsUri',
-    'reviews.authorAttribution.displayName',
-  ].join(',');
-
-  const endpoint =
-    `https://places.googleapis.com/v1/places/${encodeURIComponent(placeId)}?` +
-    `fields=${encodeURIComponent(fields)}&languageCode=en`;
-
-  const res = await fetch(endpoint, {
-    headers: { 'X-Goog-Api-Key': apiKey },
-    cache: 'no-store',
-  });
-
-  if (!res.ok) {
-    // Fail-soft (don’t break the dashboard)
-    return NextResponse.json({ status: 'success', result: [] });
+  if (errors.length || 'error' in pageReq) {
+    return apiErrors(400, errors);
   }
 
-  const data = (await res.json()) as PlaceDetailsResponse;
-  const placeName = data.displayName?.text || listing;
-  const placeUri = data.googleMapsUri;
-
-  // Map & normalize, keep it to max 5
-  const reviews = (data.reviews ?? []).slice(0, 5);
-
-  const result: Normalized[] = reviews.map((rev: PlaceReview) => {
-    const stableKey =
-      rev.name ||
-      `${rev.publishTime ?? ''}|${rev.authorAttribution?.displayName ?? ''}|${rev.text?.text ?? ''}`;
-    return {
-      id: 900000 + (hashToInt(stableKey) % 100000), // numeric, stable-ish
-      type: 'guest-to-host',
-      status: 'published',
-      rating: typeof rev.rating === 'number' ? Math.round(rev.rating * 2) : null, // /5 → /10
-      publicReview: rev.text?.text ?? '',
-      reviewCategory: [],
-      submittedAt: rev.publishTime ?? '',
-      guestName: rev.authorAttribution?.displayName || 'Google user',
-      listingName: placeName,
-      channel: 'Google',
-      sourceUrl: rev.googleMapsUri || placeUri,
-    };
+  // This fetch merged into the snapshot store; the accumulated set is served. A failed fetch
+  // is fail-soft (don’t break the dashboard): earlier snapshots are served with a warning.
+  const loadOpts = { mock: searchParams.get('mock') === '1', placeId: explicitPlaceId, window: mockWindow };
+  const acc = await accumulateGoogleReviews(listing || explicitPlaceId, loadOpts);
+  // Google's rating/count for the whole Place; the fetch above already refreshed it when live
+  const place = await loadGooglePlaceSummary(listing || explicitPlaceId, loadOpts);
+  const warnings = acc.errors.map(e => `Google: ${e}`);
+  let rows: Review[] = acc.rows;
+
+  // Overall score + stored approval decisions, then tags; `listing` picked the snapshot, so it isn't a row filter here
+  rows = rows.map(r => withRatings(r));
+  rows = applyApprovals(rows, await getApprovals());
+  rows = analyzeReviews(rows);
+  rows = queryReviews(rows, { ...query, listing: null, sort: query.sort || 'date' }); // history reads newest first
+
+  const checked = checkReviews(rows);
+  warnings.push(...checked.warnings);
+  const { result, total, nextCursor } = paginate(checked.rows, pageReq);
+
+  return NextResponse.json({
+    status: 'success',
+    result,
+    total,
+    nextCursor,
+    place,
+    snapshot: { fetched: acc.fetched, ...acc.merged },
+    ...(warnings.length ? { warnings } : {}),
   });
-
-  return NextResponse.json({ status: 'success', result });
 }
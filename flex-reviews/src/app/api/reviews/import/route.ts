@@ -0,0 +1,93 @@
+// src/app/api/reviews/import/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api-response";
+import { IMPORT_FIELDS, mapRows, parseCsv, suggestMapping, type ColumnMapping } from "@/lib/csv-import";
+import { deleteImportedChannel, importSummary, saveImportedReviews } from "@/lib/review-imports";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+const MAX_CSV_CHARS = 5_000_000;
+const PREVIEW_ROWS = 20;
+const MAX_REPORTED_ERRORS = 200;
+// These channels come from their own sources; imports must not pose as them
+const RESERVED_CHANNELS = ["hostaway", "google"];
+
+function readMapping(input: unknown, headers: string[]): ColumnMapping | string {
+  const m = input as { fields?: unknown; categories?: unknown };
+  const fields: ColumnMapping["fields"] = {};
+  const categories: ColumnMapping["categories"] = {};
+  const known = new Set(headers);
+
+  const entries = (v: unknown) => (v && typeof v === "object" ? Object.entries(v as Record<string, unknown>) : []);
+  for (const [field, header] of entries(m?.fields)) {
+    if (header === null || header === "") continue;
+    if (!(IMPORT_FIELDS as readonly string[]).includes(field)) return `Unknown field "${field}" in mapping`;
+    if (typeof header !== "string" || !known.has(header)) return `Mapping for ${field} refers to an unknown column`;
+    fields[field as keyof ColumnMapping["fields"]] = header;
+  }
+  for (const [category, header] of entries(m?.categories)) {
+    if (!category.trim()) return "Category names can't be empty";
+    if (typeof header !== "string" || !known.has(header)) return `Mapping for ${category} refers to an unknown column`;
+    categories[category.trim()] = header;
+  }
+  return { fields, categories };
+}
+
+// GET /api/reviews/import — reviews imported so far, per channel
+export async function GET() {
+  return NextResponse.json({ status: "success", result: await importSummary(), fields: IMPORT_FIELDS });
+}
+
+// POST /api/reviews/import  { csv, channel, ratingScale?: 5|10, mapping?, dryRun? }
+// Without `mapping` the columns are guessed from their headers; `dryRun` only previews.
+export async function POST(req: NextRequest) {
+  let payload: { csv?: unknown; channel?: unknown; ratingScale?: unknown; mapping?: unknown; dryRun?: unknown };
+  try { payload = await req.json(); } catch { return apiError(400, "Body must be JSON"); }
+
+  const { csv, channel, ratingScale = 10, mapping, dryRun = false } = payload ?? {};
+  if (typeof csv !== "string" || !csv.trim()) return apiError(400, "`csv` must be the file's text", "csv");
+  if (csv.length > MAX_CSV_CHARS) {
+    return apiError(413, "CSV is too large (max 5 MB)", "csv");
+  }
+  if (ratingScale !== 5 && ratingScale !== 10) return apiError(400, "`ratingScale` must be 5 or 10", "ratingScale");
+  if (channel !== undefined && typeof channel !== "string") return apiError(400, "`channel` must be a string", "channel");
+  const name = (channel ?? "").trim();
+  if (!dryRun && !name) return apiError(400, "`channel` is required to import", "channel");
+  if (name.length > 40) return apiError(400, "`channel` is limited to 40 characters", "channel");
+  if (RESERVED_CHANNELS.includes(name.toLowerCase())) return apiError(400, `"${name}" is reserved for its own source`);
+
+  const table = parseCsv(csv);
+  if (!table.headers.length) return apiError(400, "CSV has no header row");
+
+  const resolved = mapping === undefined || mapping === null ? suggestMapping(table.headers) : readMapping(mapping, table.headers);
+  if (typeof resolved === "string") return apiError(400, resolved);
+
+  const importedAt = new Date().toISOString();
+  const { rows, errors } = mapRows(table, { channel: name || "CSV import", ratingScale, mapping: resolved, importedAt });
+  const saved = !dryRun && rows.length ? await saveImportedReviews(rows) : null;
+
+  return NextResponse.json({
+    status: "success",
+    result: {
+      headers: table.headers,
+      delimiter: table.delimiter,
+      mapping: resolved,
+      total: table.rows.length,
+      valid: rows.length,
+      invalid: new Set(errors.map(e => e.row)).size,
+      errors: errors.slice(0, MAX_REPORTED_ERRORS),
+      preview: rows.slice(0, PREVIEW_ROWS),
+      saved,
+    },
+  });
+}
+
+// DELETE /api/reviews/import?channel=Airbnb — remove that channel's imported reviews
+export async function DELETE(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const channel = searchParams.get("channel");
+  if (!channel) return apiError(400, "`channel` is required", "channel");
+  const removed = await deleteImportedChannel(channel);
+  return NextResponse.json({ status: "success", result: { channel, removed } });
+}
@@ -0,0 +1,41 @@
+// src/app/api/reviews/replies/publish/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api-response";
+import { loadStoredReviews } from "@/lib/hostaway-sync";
+import { revalidatePublicPages } from "@/lib/public-reviews";
+import { getReplies, markPublished, MAX_REPLY_LENGTH } from "@/lib/replies";
+import { getReplyPublisher } from "@/lib/reply-publishers";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+// POST /api/reviews/replies/publish  { reviewId, body? } — publish `body`, or the saved draft
+export async function POST(req: NextRequest) {
+  let payload: { reviewId?: unknown; body?: unknown };
+  try { payload = await req.json(); } catch { return apiError(400, "Body must be JSON"); }
+
+  const { reviewId } = payload ?? {};
+  if (typeof reviewId !== "string" && typeof reviewId !== "number") return apiError(400, "`reviewId` is required", "reviewId");
+  const id = String(reviewId);
+
+  if (payload.body != null && typeof payload.body !== "string") return apiError(400, "`body` must be a string", "body");
+  const text = typeof payload.body === "string" ? payload.body : (await getReplies())[id]?.body;
+  if (!text || !text.trim()) return apiError(400, "Nothing to publish: reply is empty");
+  if (text.length > MAX_REPLY_LENGTH) return apiError(400, `\`body\` is longer than ${MAX_REPLY_LENGTH} characters`, "body");
+
+  // Only Hostaway-stored reviews can be answered (Google replies need Business Profile access)
+  const { rows } = await loadStoredReviews();
+  const review = rows.find(r => String(r.id) === id);
+  if (!review) return apiError(404, `Review ${id} is not a Hostaway review`);
+
+  const publisher = getReplyPublisher();
+  try {
+    const { externalId } = await publisher.publish(review, text);
+    const result = await markPublished(id, text, publisher.name, externalId);
+    revalidatePublicPages();
+    return NextResponse.json({ status: "success", result });
+  } catch (e) {
+    console.warn(`Reply publish via ${publisher.name} failed:`, e);
+    return apiError(502, `Publishing via ${publisher.name} failed`);
+  }
+}
@@ -0,0 +1,48 @@
+// src/app/api/reviews/replies/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api-response";
+import { revalidatePublicPages } from "@/lib/public-reviews";
+import { deleteReply, getReplies, MAX_REPLY_LENGTH, saveDraft, type ReplyMap } from "@/lib/replies";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+// GET /api/reviews/replies[?id=7001,7002] — drafts and published replies, keyed by review ID
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const ids = (searchParams.get("id") || "").split(",").map(s => s.trim()).filter(Boolean);
+
+  const all = await getReplies();
+  if (ids.length === 0) {
+    return NextResponse.json({ status: "success", result: all });
+  }
+  const result: ReplyMap = {};
+  for (const id of ids) {
+    if (all[id]) result[id] = all[id];
+  }
+  return NextResponse.json({ status: "success", result });
+}
+
+// PUT /api/reviews/replies  { reviewId, body } — save a draft
+export async function PUT(req: NextRequest) {
+  let payload: { reviewId?: unknown; body?: unknown };
+  try { payload = await req.json(); } catch { return apiError(400, "Body must be JSON"); }
+
+  const { reviewId, body } = payload ?? {};
+  if (typeof reviewId !== "string" && typeof reviewId !== "number") return apiError(400, "`reviewId` is required", "reviewId");
+  if (typeof body !== "string") return apiError(400, "`body` must be a string", "body");
+  if (body.length > MAX_REPLY_LENGTH) return apiError(400, `\`body\` is longer than ${MAX_REPLY_LENGTH} characters`, "body");
+
+  const result = await saveDraft(String(reviewId), body);
+  return NextResponse.json({ status: "success", result });
+}
+
+// DELETE /api/reviews/replies?id=7001 — discard the local reply (does not unpublish upstream)
+export async function DELETE(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const id = searchParams.get("id");
+  if (!id) return apiError(400, "`id` is required", "id");
+  await deleteReply(id);
+  revalidatePublicPages(); // a published reply may have been showing
+  return NextResponse.json({ status: "success", result: null });
+}
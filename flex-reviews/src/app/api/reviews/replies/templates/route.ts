@@ -0,0 +1,38 @@
+// src/app/api/reviews/replies/templates/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api-response";
+import { deleteTemplate, getTemplates, saveTemplate } from "@/lib/replies";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+function slugId(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || `t-${Date.now()}`;
+}
+
+// GET /api/reviews/replies/templates
+export async function GET() {
+  return NextResponse.json({ status: "success", result: await getTemplates() });
+}
+
+// PUT /api/reviews/replies/templates  { id?, name, body } — create or replace
+export async function PUT(req: NextRequest) {
+  let payload: { id?: unknown; name?: unknown; body?: unknown };
+  try { payload = await req.json(); } catch { return apiError(400, "Body must be JSON"); }
+
+  const { id, name, body } = payload ?? {};
+  if (typeof name !== "string" || !name.trim()) return apiError(400, "`name` is required", "name");
+  if (typeof body !== "string" || !body.trim()) return apiError(400, "`body` is required", "body");
+  if (id !== undefined && typeof id !== "string") return apiError(400, "`id` must be a string", "id");
+
+  const result = await saveTemplate({ id: id || slugId(name), name: name.trim(), body });
+  return NextResponse.json({ status: "success", result });
+}
+
+// DELETE /api/reviews/replies/templates?id=thanks
+export async function DELETE(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const id = searchParams.get("id");
+  if (!id) return apiError(400, "`id` is required", "id");
+  return NextResponse.json({ status: "success", result: await deleteTemplate(id) });
+}
@@ -0,0 +1,48 @@
+// src/app/api/reviews/route.ts
+// Aggregate endpoint: Hostaway, Google and CSV imports merged server-side, then filtered/sorted as one set.
+import { NextRequest, NextResponse } from "next/server";
+import { apiErrors } from "@/lib/api-response";
+import { applyApprovals, getApprovals } from "@/lib/approvals";
+import { paginate, parsePageRequest } from "@/lib/pagination";
+import { applyReplies, getReplies } from "@/lib/replies";
+import { analyzeReviews } from "@/lib/review-analysis";
+import { parseReviewQuery, queryReviews, withDefaults } from "@/lib/review-query";
+import { loadAllReviews } from "@/lib/review-sources";
+import { checkReviews } from "@/lib/schema";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+// ---------- Main handler ----------
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const query = parseReviewQuery(searchParams);
+  const pageReq = parsePageRequest(searchParams);
+  const errors = "error" in pageReq ? [...query.errors, pageReq.error] : query.errors;
+  if (errors.length || "error" in pageReq) {
+    return apiErrors(400, errors);
+  }
+
+  // 1) + 2) Every registered source (Hostaway store, Google per listing, imports), each reported in `sources`
+  const { rows: raw, sources } = await loadAllReviews({
+    listing: query.listing,
+    channels: query.channels,
+    mock: searchParams.get("mock") === "1",
+  });
+
+  // 3) Merge → defaults → approvals/replies → tags → filters/sort, same pipeline as /api/reviews/hostaway
+  let rows = withDefaults(raw);
+  rows = applyApprovals(rows, await getApprovals());
+  rows = applyReplies(rows, await getReplies());
+  rows = analyzeReviews(rows);
+  rows = queryReviews(rows, query);
+  const { rows: valid, warnings } = checkReviews(rows);
+
+  // 4) Paging over the merged set
+  const { result, total, nextCursor } = paginate(valid, pageReq);
+
+  return NextResponse.json(
+    { status: "success", result, total, nextCursor, sources, ...(warnings.length ? { warnings } : {}) },
+    { headers: { "Cache-Control": "s-maxage=120, stale-while-revalidate=60" } }
+  );
+}
@@ -0,0 +1,79 @@
+// src/app/api/reviews/stats/route.ts
+// Aggregates over the same filtered set /api/reviews/hostaway would return (all pages),
+// or over the full merged set of /api/reviews (imports included) with `include=google`.
+import { NextRequest, NextResponse } from "next/server";
+import { apiErrors } from "@/lib/api-response";
+import { applyApprovals, getApprovals } from "@/lib/approvals";
+import { loadStoredReviews } from "@/lib/hostaway-sync";
+import { applyReplies, getReplies } from "@/lib/replies";
+import { analyzeReviews } from "@/lib/review-analysis";
+import { parseReviewQuery, queryReviews, withDefaults, type QueryError, type Review } from "@/lib/review-query";
+import { loadAllReviews, type SourceReport } from "@/lib/review-sources";
+import { computeStats, type Interval } from "@/lib/review-stats";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+const INTERVALS: Interval[] = ["month", "week"];
+const DEFAULT_PERIOD_DAYS = 30;
+const MAX_PERIOD_DAYS = 366;
+
+// ---------- Main handler ----------
+export async function GET(req: NextRequest) {
+  const { searchParams } = new URL(req.url);
+  const query = parseReviewQuery(searchParams);
+  const errors: QueryError[] = [...query.errors];
+
+  const interval = (searchParams.get("interval") || "month").toLowerCase() as Interval;
+  if (!INTERVALS.includes(interval)) {
+    errors.push({ param: "interval", message: `interval must be one of ${INTERVALS.join(", ")}` });
+  }
+  const periodDays = Number(searchParams.get("period") ?? DEFAULT_PERIOD_DAYS);
+  if (!Number.isInteger(periodDays) || periodDays < 1 || periodDays > MAX_PERIOD_DAYS) {
+    errors.push({ param: "period", message: `period must be a whole number of days (1–${MAX_PERIOD_DAYS})` });
+  }
+  const include = searchParams.get("include");
+  if (include && include !== "google") {
+    errors.push({ param: "include", message: 'include only accepts "google"' });
+  }
+  if (errors.length) {
+    return apiErrors(400, errors);
+  }
+
+  // Same store + pipeline as /api/reviews/hostaway (Google ratings are already doubled onto 0–10)
+  let raw: Review[];
+  let source: string;
+  let warnings: string[] = [];
+  let sources: SourceReport[] | undefined;
+  if (include === "google") {
+    ({ rows: raw, sources } = await loadAllReviews({
+      listing: query.listing,
+      channels: query.channels,
+      mock: searchParams.get("mock") === "1",
+    }));
+    source = "merged";
+  } else {
+    ({ rows: raw, source, errors: warnings } = await loadStoredReviews());
+  }
+
+  let rows = withDefaults(raw);
+  rows = applyApprovals(rows, await getApprovals());
+  rows = applyReplies(rows, await getReplies());
+  rows = analyzeReviews(rows);
+
+  // Deltas compare two windows ending at `to` (or now), so they ignore the date range itself
+  const periodRows = queryReviews(rows, { ...query, fromMs: null, toMs: null });
+  const periodEndMs = query.toMs !== null && !Number.isNaN(query.toMs) ? query.toMs : Date.now();
+
+  const result = computeStats(queryReviews(rows, query), { interval, periodDays, periodEndMs, periodRows });
+
+  return NextResponse.json(
+    { status: "success", result, ...(sources ? { sources } : {}), ...(warnings.length ? { warnings } : {}) },
+    {
+      headers: {
+        "Cache-Control": "s-maxage=120, stale-while-revalidate=60",
+        "x-source": source,
+      },
+    }
+  );
+}
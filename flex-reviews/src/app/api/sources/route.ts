@@ -0,0 +1,11 @@
+// src/app/api/sources/route.ts
+import { NextResponse } from "next/server";
+import { describeSources } from "@/lib/review-sources";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+// GET /api/sources — registered review sources, their capabilities and health
+export async function GET() {
+  return NextResponse.json({ status: "success", result: await describeSources() });
+}
@@ -0,0 +1,35 @@
+// src/app/api/sync/route.ts
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api-response";
+import { getSyncState, syncHostaway } from "@/lib/hostaway-sync";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+// Optional shared secret (e.g. for a cron caller): `Authorization: Bearer <SYNC_SECRET>`
+const SYNC_SECRET = process.env.SYNC_SECRET;
+
+function authorized(req: NextRequest): boolean {
+  if (!SYNC_SECRET) return true;
+  return req.headers.get("authorization") === `Bearer ${SYNC_SECRET}`;
+}
+
+// GET /api/sync — watermark + last run
+export async function GET() {
+  return NextResponse.json({ status: "success", result: await getSyncState() });
+}
+
+// POST /api/sync[?full=1] — pull Hostaway changes since the watermark into the review store
+export async function POST(req: NextRequest) {
+  if (!authorized(req)) {
+    return apiError(401, "Unauthorized");
+  }
+  const { searchParams } = new URL(req.url);
+  const full = searchParams.get("full") === "1";
+
+  const result = await syncHostaway({ full });
+  return NextResponse.json(
+    { status: result.ok ? "success" : "error", result },
+    { status: result.ok ? 200 : 502 }
+  );
+}
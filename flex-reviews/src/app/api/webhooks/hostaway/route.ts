@@ -0,0 +1,86 @@
+// src/app/api/webhooks/hostaway/route.ts
+// Push path next to the pull-based sync: Hostaway review events are upserted into the review store.
+import { NextRequest, NextResponse } from "next/server";
+import { apiError } from "@/lib/api-response";
+import type { HostawayReviewLike } from "@/lib/hostaway";
+import { hostawaySource, syncHostaway } from "@/lib/hostaway-sync";
+import { notifyNewReviews } from "@/lib/notifications";
+import { readStoredReviews, upsertReviews } from "@/lib/review-store";
+import { hmacSha256Hex, safeEqual } from "@/lib/signing";
+import { normalizeWith } from "@/lib/source-adapter";
+
+export const runtime = "nodejs";
+export const revalidate = 0;
+
+// Either (or both) may be configured; requests must satisfy every one that is.
+const SECRET = process.env.HOSTAWAY_WEBHOOK_SECRET;     // HMAC-SHA256 of the raw body
+const BASIC_USER = process.env.HOSTAWAY_WEBHOOK_USER;   // Basic auth, as set in Hostaway's webhook settings
+const BASIC_PASS = process.env.HOSTAWAY_WEBHOOK_PASSWORD;
+
+function verify(req: NextRequest, rawBody: string): string | null {
+  if (!SECRET && !BASIC_USER) return "Webhook auth is not configured";
+
+  if (SECRET) {
+    const header = req.headers.get("x-hostaway-signature") || "";
+    const given = header.replace(/^sha256=/, "");
+    if (!given || !safeEqual(given, hmacSha256Hex(SECRET, rawBody))) return "Bad signature";
+  }
+
+  if (BASIC_USER) {
+    const expected = "Basic " + Buffer.from(`${BASIC_USER}:${BASIC_PASS ?? ""}`).toString("base64");
+    if (!safeEqual(req.headers.get("authorization") || "", expected)) return "Bad credentials";
+  }
+
+  return null;
+}
+
+type HostawayEvent = {
+  event?: string;
+  object?: string;
+  data?: unknown;
+  payload?: unknown;
+};
+
+/** Review payloads in an event: `data`/`payload` (object or array), or a bare review. */
+function reviewPayloads(body: HostawayEvent): HostawayReviewLike[] {
+  const inner = body.data ?? body.payload ?? body;
+  const list = Array.isArray(inner) ? inner : [inner];
+  return list.filter((x): x is HostawayReviewLike => typeof x === "object" && x !== null);
+}
+
+// POST /api/webhooks/hostaway
+export async function POST(req: NextRequest) {
+  const rawBody = await req.text();
+
+  const authError = verify(req, rawBody);
+  if (authError) return apiError(authError.includes("configured") ? 503 : 401, authError);
+
+  let body: HostawayEvent;
+  try { body = JSON.parse(rawBody) as HostawayEvent; } catch { return apiError(400, "Body must be JSON"); }
+
+  // Only review events are handled; acknowledge the rest so Hostaway doesn't retry them
+  const event = String(body.event ?? "");
+  const isReviewEvent = /^review\./i.test(event) || body.object === "review" || !event;
+  if (!isReviewEvent) {
+    return NextResponse.json({ status: "success", result: { event, ignored: true } });
+  }
+
+  const payloads = reviewPayloads(body);
+  if (payloads.some(p => (p.id ?? p.reviewId ?? p._id ?? p.uuid) == null)) {
+    return apiError(400, "Review payload is missing an id");
+  }
+  // Same normalizer + channel tagging as the sync
+  const rows = payloads.map(p => normalizeWith(hostawaySource, p, { listing: null, mock: false }));
+
+  // Seed the store first, otherwise this event would become its only content. If the seed
+  // fails, leave the store uncreated and let Hostaway redeliver the event later.
+  if ((await readStoredReviews()) === null) {
+    const boot = await syncHostaway();
+    if (!boot.ok) return apiError(503, `Review store is not seeded yet: ${boot.errors.join("; ") || "sync failed"}`);
+  }
+
+  // Upserts are keyed by ID and skip older copies: redeliveries and out-of-order updates are no-ops
+  const { insertedRows, initialLoad, ...counts } = await upsertReviews(rows);
+  const notified = await notifyNewReviews(insertedRows, { initialLoad });
+  return NextResponse.json({ status: "success", result: { event, ...counts, notified } });
+}
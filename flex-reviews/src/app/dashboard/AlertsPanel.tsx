@@ -0,0 +1,116 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import type { Alert } from '@/lib/alert-rules';
+
+type AlertRow = Alert & {
+  status: 'active' | 'acknowledged' | 'snoozed';
+  state?: { status: string; at: string; until?: string };
+};
+
+type Action = 'acknowledge' | 'snooze' | 'reopen';
+
+const SNOOZE_OPTIONS = [
+  { hours: 24, label: '1 day' },
+  { hours: 24 * 7, label: '1 week' },
+];
+
+/** Firing alert rules (GET /api/alerts) with acknowledge / snooze / reopen. `refreshKey` re-polls. */
+export default function AlertsPanel({ refreshKey }: { refreshKey: number }) {
+  const [alerts, setAlerts] = useState<AlertRow[]>([]);
+  const [showMuted, setShowMuted] = useState(false);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const j = await (await fetch('/api/alerts')).json();
+      if (j?.status === 'success') setAlerts(j.result ?? []);
+    } catch {
+      /* keep the last list */
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load, refreshKey]);
+
+  const act = async (id: string, action: Action, hours?: number) => {
+    setBusy(id);
+    setError(null);
+    try {
+      const j = await (await fetch('/api/alerts', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, action, hours }),
+      })).json();
+      if (j?.status !== 'success') setError(j?.errors?.[0]?.message ?? 'Request failed');
+      await load();
+    } catch {
+      setError('Network error');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const active = alerts.filter(a => a.status === 'active');
+  const muted = alerts.filter(a => a.status !== 'active');
+  const shown = showMuted ? [...active, ...muted] : active;
+  const btn = 'rounded-lg border border-line px-2 py-0.5 text-xs text-subtle hover:text-ink disabled:opacity-50';
+
+  return (
+    <section
+      className={`rounded-2xl border px-4 py-3 ${active.length ? 'border-red-200 bg-red-50/60' : 'border-line bg-surface'}`}
+      aria-label="Alerts"
+    >
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-sm font-semibold text-ink">
+          Alerts{' '}
+          <span className={active.length ? 'text-red-700' : 'text-subtle'}>
+            {active.length ? `${active.length} active` : 'none active'}
+          </span>
+        </h2>
+        {muted.length > 0 && (
+          <button className="text-xs text-brand hover:text-ink" onClick={() => setShowMuted(v => !v)}>
+            {showMuted ? 'Hide' : 'Show'} acknowledged/snoozed ({muted.length})
+          </button>
+        )}
+      </div>
+
+      {error && <p className="mt-1 text-xs text-red-700">{error}</p>}
+
+      {shown.length > 0 && (
+        <ul className="mt-2 space-y-2">
+          {shown.map(a => (
+            <li key={a.id} className="flex flex-col gap-1 sm:flex-row sm:items-center sm:justify-between">
+              <div className={a.status === 'active' ? 'text-sm text-ink' : 'text-sm text-subtle'}>
+                {a.message}
+                <span className="ml-2 text-xs text-subtle">
+                  {a.ruleName}
+                  {a.status === 'snoozed' && a.state?.until && ` · snoozed until ${new Date(a.state.until).toLocaleString()}`}
+                  {a.status === 'acknowledged' && ' · acknowledged'}
+                </span>
+              </div>
+              <div className="flex shrink-0 gap-1">
+                {a.status === 'active' ? (
+                  <>
+                    <button className={btn} disabled={busy === a.id} onClick={() => act(a.id, 'acknowledge')}>
+                      Acknowledge
+                    </button>
+                    {SNOOZE_OPTIONS.map(o => (
+                      <button key={o.hours} className={btn} disabled={busy === a.id} onClick={() => act(a.id, 'snooze', o.hours)}>
+                        Snooze {o.label}
+                      </button>
+                    ))}
+                  </>
+                ) : (
+                  <button className={btn} disabled={busy === a.id} onClick={() => act(a.id, 'reopen')}>
+                    Reopen
+                  </button>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,96 @@
+'use client';
+
+import { useState } from 'react';
+import type { Reply } from '@/lib/replies';
+import { renderTemplate, templateVars, type ReplyTemplate } from '@/lib/reply-templates';
+
+type Props = {
+  review: { id: number | string; guestName: string; listingName: string; channel?: string };
+  reply?: Reply;
+  templates: ReplyTemplate[];
+  /** resolve to an error message, or null on success */
+  onSave: (body: string) => Promise<string | null>;
+  onPublish: (body: string) => Promise<string | null>;
+  onClose: () => void;
+};
+
+export default function ReplyEditor({ review, reply, templates, onSave, onPublish, onClose }: Props) {
+  const [body, setBody] = useState(reply?.body ?? '');
+  const [busy, setBusy] = useState<'save' | 'publish' | null>(null);
+  const [message, setMessage] = useState<{ kind: 'ok' | 'error'; text: string } | null>(null);
+
+  const dirty = body !== (reply?.body ?? '');
+  const upToDate = reply?.status === 'published' && !dirty;
+
+  const applyTemplate = (id: string) => {
+    const t = templates.find(x => x.id === id);
+    if (t) setBody(renderTemplate(t.body, templateVars(review)));
+  };
+
+  const run = async (kind: 'save' | 'publish') => {
+    setBusy(kind);
+    setMessage(null);
+    const err = await (kind === 'save' ? onSave(body) : onPublish(body));
+    setBusy(null);
+    setMessage(err ? { kind: 'error', text: err } : { kind: 'ok', text: kind === 'save' ? 'Draft saved' : 'Published' });
+  };
+
+  return (
+    <div className="rounded-xl border border-line bg-surface p-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="text-xs text-subtle">
+          Host reply to <b className="text-ink">{review.guestName}</b>
+          {reply && (
+            <span className="ml-2 rounded-full border border-line px-2 py-0.5">
+              {reply.status === 'published' ? 'Published' : 'Draft'}
+            </span>
+          )}
+          {reply?.status === 'draft' && reply.publishedBody && (
+            <span className="ml-2">(an earlier version is live)</span>
+          )}
+        </div>
+        <select
+          className="bg-surface border border-line rounded-xl px-2 py-1 text-xs"
+          value=""
+          onChange={e => applyTemplate(e.target.value)}
+          aria-label="Insert template"
+        >
+          <option value="">Insert template…</option>
+          {templates.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+        </select>
+      </div>
+
+      <textarea
+        className="mt-2 w-full min-h-24 bg-surface border border-line rounded-xl px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-brand/30"
+        value={body}
+        onChange={e => setBody(e.target.value)}
+        placeholder="Write a response… placeholders like {guestName} and {listingName} are filled by templates."
+        aria-label={`Reply to review ${review.id}`}
+      />
+
+      <div className="mt-2 flex items-center gap-2">
+        <button
+          className="rounded-xl border border-line bg-surface px-3 py-1.5 text-sm text-subtle hover:text-ink disabled:opacity-50"
+          onClick={() => run('save')}
+          disabled={busy !== null || !dirty}
+        >
+          {busy === 'save' ? 'Saving…' : 'Save draft'}
+        </button>
+        <button
+          className="rounded-xl border border-line bg-surface px-3 py-1.5 text-sm text-brand hover:text-ink disabled:opacity-50"
+          onClick={() => run('publish')}
+          disabled={busy !== null || !body.trim() || upToDate}
+        >
+          {busy === 'publish' ? 'Publishing…' : 'Publish'}
+        </button>
+        <button className="ml-auto text-sm text-subtle hover:text-ink" onClick={onClose}>
+          Close
+        </button>
+      </div>
+
+      {message && (
+        <p className={`mt-2 text-xs ${message.kind === 'error' ? 'text-red-700' : 'text-subtle'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+}
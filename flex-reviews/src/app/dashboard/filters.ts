@@ -0,0 +1,109 @@
+'use client';
+
+// Filter state shared by the reviews table (/dashboard) and the charts (/dashboard/insights).
+// Kept in the URL so a filtered view can be linked, and mirrored to sessionStorage so
+// switching pages through a plain link keeps it.
+import { useCallback, useEffect, useState } from 'react';
+import { SORT_FIELDS, SORT_ORDERS } from '@/lib/schema';
+
+export type SortKey = (typeof SORT_FIELDS)[number];
+export type SortOrder = (typeof SORT_ORDERS)[number];
+
+export type DashboardFilters = {
+  q: string; // structured filter syntax, sent as `filter`
+  listing: string;
+  category: string;
+  min: number | '';
+  channel: string;
+  type: string;
+  topic: string;
+  sort: SortKey;
+  order: SortOrder;
+};
+
+export const DEFAULT_FILTERS: DashboardFilters = {
+  q: '', listing: '', category: '', min: '', channel: '', type: '', topic: '', sort: 'date', order: 'desc',
+};
+
+const STORAGE_KEY = 'flex.dashboardFilters';
+const KEYS = Object.keys(DEFAULT_FILTERS) as (keyof DashboardFilters)[];
+
+/** Non-default filters as page URL params (?q=…&listing=…). */
+export function filtersToSearch(f: DashboardFilters): string {
+  const p = new URLSearchParams();
+  for (const k of KEYS) {
+    if (f[k] !== DEFAULT_FILTERS[k]) p.set(k, String(f[k]));
+  }
+  return p.toString();
+}
+
+function filtersFromSearch(search: string): DashboardFilters | null {
+  const p = new URLSearchParams(search);
+  if (!KEYS.some(k => p.has(k))) return null;
+  const min = p.get('min');
+  const sort = p.get('sort');
+  const order = p.get('order');
+  return {
+    ...DEFAULT_FILTERS,
+    q: p.get('q') ?? '',
+    listing: p.get('listing') ?? '',
+    category: p.get('category') ?? '',
+    min: min !== null && min !== '' && Number.isFinite(Number(min)) ? Number(min) : '',
+    channel: p.get('channel') ?? '',
+    type: p.get('type') ?? '',
+    topic: p.get('topic') ?? '',
+    sort: sort === 'rating' || sort === 'relevance' ? sort : 'date',
+    order: order === 'asc' ? 'asc' : 'desc',
+  };
+}
+
+/** The review API params for these filters (same names /api/reviews and /api/reviews/stats accept). */
+export function filtersToApiParams(f: DashboardFilters): URLSearchParams {
+  const p = new URLSearchParams();
+  if (f.q) p.set('filter', f.q); // search box takes the structured filter syntax
+  if (f.listing) p.set('listing', f.listing);
+  if (f.category) p.set('category', f.category);
+  if (f.min !== '') p.set('min', String(f.min));
+  if (f.channel) p.set('channel', f.channel);
+  if (f.type) p.set('type', f.type);
+  if (f.topic) p.set('topic', f.topic);
+  if (f.sort) p.set('sort', f.sort);
+  if (f.order) p.set('order', f.order);
+  return p;
+}
+
+/**
+ * `ready` turns true once the URL/sessionStorage state has been read (after mount),
+ * so pages can hold their first fetch instead of loading the unfiltered set twice.
+ */
+export function useDashboardFilters() {
+  const [filters, setFilters] = useState<DashboardFilters>(DEFAULT_FILTERS);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    let initial = filtersFromSearch(window.location.search);
+    if (!initial) {
+      try {
+        const saved = sessionStorage.getItem(STORAGE_KEY);
+        if (saved) initial = filtersFromSearch(saved);
+      } catch { /* storage disabled */ }
+    }
+    if (initial) setFilters(initial);
+    setReady(true);
+  }, []);
+
+  useEffect(() => {
+    if (!ready) return;
+    const search = filtersToSearch(filters);
+    const url = `${window.location.pathname}${search ? `?${search}` : ''}`;
+    window.history.replaceState(window.history.state, '', url);
+    try { sessionStorage.setItem(STORAGE_KEY, search); } catch { /* storage disabled */ }
+  }, [filters, ready]);
+
+  const update = useCallback((patch: Partial<DashboardFilters>) => {
+    setFilters(f => ({ ...f, ...patch }));
+  }, []);
+  const reset = useCallback(() => setFilters(DEFAULT_FILTERS), []);
+
+  return { filters, update, reset, ready };
+}
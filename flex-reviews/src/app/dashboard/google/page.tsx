@@ -0,0 +1,277 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import type { ListingPlaceHealth, PlaceCandidate, PlaceLookupMode, PlaceStatus } from '@/lib/google-places';
+
+const STATUS_CLS: Record<PlaceStatus, string> = {
+  mapped: 'border-emerald-200 bg-emerald-50 text-emerald-700',
+  unmapped: 'border-line text-subtle',
+  invalid: 'border-red-200 bg-red-50 text-red-700',
+  error: 'border-amber-200 bg-amber-50 text-amber-800',
+};
+
+async function call<T>(url: string, init?: RequestInit): Promise<T> {
+  const resp = await fetch(url, init);
+  const json = await resp.json();
+  if (json?.status !== 'success') throw new Error(json?.errors?.[0]?.message ?? 'Request failed');
+  return json.result as T;
+}
+
+const when = (iso?: string) => (iso ? new Date(iso).toLocaleString() : '–');
+
+/** Place ID input plus a Text Search box for one listing. */
+function MappingEditor({
+  row,
+  onSaved,
+  onCancel,
+}: {
+  row: ListingPlaceHealth;
+  onSaved: (h: ListingPlaceHealth) => void;
+  onCancel: () => void;
+}) {
+  const [placeId, setPlaceId] = useState(row.mapping?.placeId ?? '');
+  const [picked, setPicked] = useState<PlaceCandidate | null>(null);
+  const [query, setQuery] = useState(row.listing);
+  const [candidates, setCandidates] = useState<PlaceCandidate[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const search = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      setCandidates(await call<PlaceCandidate[]>(`/api/google/places/search?q=${encodeURIComponent(query)}`));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Search failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const save = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const chosen = picked?.placeId === placeId.trim() ? picked : null;
+      onSaved(await call<ListingPlaceHealth>('/api/google/places', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          listing: row.listing,
+          placeId: placeId.trim(),
+          placeName: chosen?.name,
+          address: chosen?.address,
+          verify: true,
+        }),
+      }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Save failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputCls = 'bg-surface border border-line rounded-xl px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-brand/30';
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          className={`${inputCls} min-w-72 flex-1 font-mono`}
+          value={placeId}
+          placeholder="Place ID, e.g. ChIJ…"
+          aria-label={`Place ID for ${row.listing}`}
+          onChange={e => setPlaceId(e.target.value)}
+        />
+        <button className="rounded-xl bg-brand px-3 py-1.5 text-sm text-white disabled:opacity-50" disabled={busy || !placeId.trim()} onClick={save}>
+          Save &amp; verify
+        </button>
+        <button className="rounded-xl border border-line px-3 py-1.5 text-sm text-subtle hover:text-ink" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          className={`${inputCls} min-w-72 flex-1`}
+          value={query}
+          aria-label="Find place"
+          onChange={e => setQuery(e.target.value)}
+          onKeyDown={e => { if (e.key === 'Enter') search(); }}
+        />
+        <button className="rounded-xl border border-line px-3 py-1.5 text-sm text-ink disabled:opacity-50" disabled={busy || !query.trim()} onClick={search}>
+          Find place
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-700" role="alert">{error}</p>}
+
+      {candidates && (
+        candidates.length === 0 ? (
+          <p className="text-sm text-subtle">No places found.</p>
+        ) : (
+          <ul className="divide-y divide-line rounded-xl border border-line">
+            {candidates.map(c => (
+              <li key={c.placeId} className="flex flex-wrap items-center justify-between gap-2 px-3 py-2 text-sm">
+                <span>
+                  <span className="font-medium text-ink">{c.name}</span>
+                  {c.address && <span className="text-subtle"> · {c.address}</span>}
+                  {c.rating != null && <span className="text-subtle"> · {c.rating} ({c.userRatingCount ?? 0})</span>}
+                  <span className="block font-mono text-xs text-subtle">{c.placeId}</span>
+                </span>
+                <button
+                  className="rounded-lg border border-line px-2 py-0.5 text-xs text-brand hover:text-ink"
+                  onClick={() => { setPlaceId(c.placeId); setPicked(c); }}
+                >
+                  {placeId === c.placeId ? 'Selected' : 'Use'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+}
+
+export default function GooglePlacesPage() {
+  const [rows, setRows] = useState<ListingPlaceHealth[]>([]);
+  const [mode, setMode] = useState<PlaceLookupMode | null>(null);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const j = await (await fetch('/api/google/places')).json();
+      if (j?.status !== 'success') throw new Error(j?.errors?.[0]?.message ?? 'Request failed');
+      setRows(j.result ?? []);
+      setMode(j.mode ?? null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not load mappings');
+    }
+  }, []);
+  useEffect(() => { load(); }, [load]);
+
+  const replace = (h: ListingPlaceHealth) => setRows(rs => rs.map(r => (r.listing === h.listing ? h : r)));
+
+  const verify = async (listing: string) => {
+    setBusy(listing);
+    setError(null);
+    try {
+      replace(await call<ListingPlaceHealth>('/api/google/places/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ listing }),
+      }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Verification failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const remove = async (listing: string) => {
+    if (!window.confirm(`Remove the Google place mapping for “${listing}”?`)) return;
+    setBusy(listing);
+    try {
+      replace(await call<ListingPlaceHealth>(`/api/google/places?listing=${encodeURIComponent(listing)}`, { method: 'DELETE' }));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Remove failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const counts = rows.reduce<Record<string, number>>((acc, r) => ({ ...acc, [r.status]: (acc[r.status] ?? 0) + 1 }), {});
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-baseline gap-3">
+        <h1 className="text-2xl font-semibold text-ink">Google Places</h1>
+        <a href="/dashboard" className="text-sm text-brand hover:text-ink">← Reviews</a>
+      </div>
+      <p className="text-sm text-subtle">
+        Each listing needs its Google Place ID before its Google reviews can be fetched. Find the place by name, pick it,
+        then save; saving checks the ID against Google.
+        {mode === 'mock' && ' No GOOGLE_MAPS_API_KEY is set, so search and verification answer from the bundled mock places.'}
+      </p>
+
+      <div className="flex flex-wrap gap-2 text-xs">
+        {(['mapped', 'unmapped', 'invalid', 'error'] as const).map(s => (
+          <span key={s} className={`rounded-full border px-2 py-0.5 ${STATUS_CLS[s]}`}>{s}: {counts[s] ?? 0}</span>
+        ))}
+      </div>
+
+      {error && <p className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700" role="alert">{error}</p>}
+
+      <div className="overflow-x-auto rounded-2xl border border-line bg-surface">
+        <table className="w-full text-left text-sm">
+          <thead className="text-xs text-subtle">
+            <tr className="border-b border-line">
+              <th className="px-3 py-2">Listing</th>
+              <th className="px-3">Place</th>
+              <th className="px-3">Status</th>
+              <th className="px-3">Verified</th>
+              <th className="px-3">Last fetch</th>
+              <th className="px-3" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(r => (
+              <Fragment key={r.listing}>
+                <tr className="border-b border-line align-top">
+                  <td className="px-3 py-2 text-ink">{r.listing}</td>
+                  <td className="px-3 py-2">
+                    {r.mapping ? (
+                      <>
+                        <span className="text-ink">{r.mapping.placeName ?? '–'}</span>
+                        {r.mapping.address && <span className="block text-xs text-subtle">{r.mapping.address}</span>}
+                        <span className="block font-mono text-xs text-subtle">{r.mapping.placeId}</span>
+                      </>
+                    ) : (
+                      <span className="text-subtle">–</span>
+                    )}
+                  </td>
+                  <td className="px-3 py-2">
+                    <span className={`rounded-full border px-2 py-0.5 text-xs ${STATUS_CLS[r.status]}`}>{r.status}</span>
+                    {r.detail && <span className="mt-1 block text-xs text-subtle">{r.detail}</span>}
+                  </td>
+                  <td className="px-3 py-2 whitespace-nowrap text-subtle">{when(r.mapping?.verifiedAt)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-subtle">{when(r.mapping?.lastFetchAt)}</td>
+                  <td className="px-3 py-2 whitespace-nowrap text-right">
+                    <button className="text-xs text-brand hover:text-ink" onClick={() => setEditing(e => (e === r.listing ? null : r.listing))}>
+                      {r.mapping ? 'Edit' : 'Add'}
+                    </button>
+                    {r.mapping && (
+                      <>
+                        <button className="ml-3 text-xs text-brand hover:text-ink disabled:opacity-50" disabled={busy === r.listing} onClick={() => verify(r.listing)}>
+                          {busy === r.listing ? 'Checking…' : 'Verify'}
+                        </button>
+                        <button className="ml-3 text-xs text-subtle hover:text-ink" onClick={() => remove(r.listing)}>
+                          Remove
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+                {editing === r.listing && (
+                  <tr className="border-b border-line">
+                    <td colSpan={6} className="px-3 py-3">
+                      <MappingEditor
+                        row={r}
+                        onSaved={(h) => { replace(h); setEditing(null); }}
+                        onCancel={() => setEditing(null)}
+                      />
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+          </tbody>
+        </table>
+        {rows.length === 0 && <p className="px-3 py-4 text-sm text-subtle">No listings yet.</p>}
+      </div>
+    </div>
+  );
+}
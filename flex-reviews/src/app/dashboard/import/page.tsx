@@ -0,0 +1,292 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { IMPORT_FIELDS, categoryName, type ColumnMapping, type ImportField, type RowError } from '@/lib/csv-import';
+import type { ImportSummary } from '@/lib/review-imports';
+import type { Review } from '@/lib/review-query';
+import type { UpsertResult } from '@/lib/review-store';
+
+type ImportResult = {
+  headers: string[];
+  mapping: ColumnMapping;
+  total: number;
+  valid: number;
+  invalid: number;
+  errors: RowError[];
+  preview: Review[];
+  saved: UpsertResult | null;
+};
+
+const FIELD_LABELS: Record<ImportField, string> = {
+  id: 'Review ID',
+  listingName: 'Listing',
+  guestName: 'Guest',
+  publicReview: 'Review text',
+  rating: 'Overall rating',
+  submittedAt: 'Date',
+  type: 'Type',
+  status: 'Status',
+};
+
+const CATEGORY = 'category';
+
+/** What a CSV column currently feeds: '' (ignored), a review field, or CATEGORY. */
+function assignmentOf(m: ColumnMapping, header: string): string {
+  const field = IMPORT_FIELDS.find(f => m.fields[f] === header);
+  if (field) return field;
+  return Object.values(m.categories).includes(header) ? CATEGORY : '';
+}
+
+function withoutHeader(m: ColumnMapping, header: string): ColumnMapping {
+  return {
+    fields: Object.fromEntries(Object.entries(m.fields).filter(([, h]) => h !== header)),
+    categories: Object.fromEntries(Object.entries(m.categories).filter(([, h]) => h !== header)),
+  };
+}
+
+async function postImport(body: Record<string, unknown>): Promise<ImportResult> {
+  const resp = await fetch('/api/reviews/import', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+  const json = await resp.json();
+  if (json?.status !== 'success') throw new Error(json?.errors?.[0]?.message ?? 'Request failed');
+  return json.result;
+}
+
+export default function ImportPage() {
+  const [fileName, setFileName] = useState('');
+  const [csv, setCsv] = useState('');
+  const [channel, setChannel] = useState('');
+  const [ratingScale, setRatingScale] = useState<5 | 10>(10);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [imports, setImports] = useState<ImportSummary[]>([]);
+
+  const loadImports = useCallback(async () => {
+    try {
+      const j = await (await fetch('/api/reviews/import')).json();
+      if (j?.status === 'success') setImports(j.result ?? []);
+    } catch {
+      /* keep the last list */
+    }
+  }, []);
+  useEffect(() => { loadImports(); }, [loadImports]);
+
+  // Preview (dry run) whenever the file or any option changes; the first one suggests the mapping
+  useEffect(() => {
+    if (!csv) return;
+    let cancelled = false;
+    const t = setTimeout(() => {
+      postImport({ csv, channel, ratingScale, mapping, dryRun: true })
+        .then(r => {
+          if (cancelled) return;
+          setError(null);
+          setResult(r);
+          if (!mapping) setMapping(r.mapping);
+        })
+        .catch(e => { if (!cancelled) setError(e instanceof Error ? e.message : 'Preview failed'); });
+    }, 250);
+    return () => { cancelled = true; clearTimeout(t); };
+  }, [csv, channel, ratingScale, mapping]);
+
+  const onFile = async (file: File | undefined) => {
+    setNotice(null);
+    setResult(null);
+    setMapping(null);
+    setFileName(file?.name ?? '');
+    setCsv(file ? await file.text() : '');
+    if (file && !channel) setChannel(file.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').slice(0, 40));
+  };
+
+  const assign = (header: string, value: string) => {
+    if (!mapping) return;
+    const next = withoutHeader(mapping, header);
+    if (value === CATEGORY) next.categories[categoryName(header) || header] = header;
+    else if (value) next.fields[value as ImportField] = header; // a field takes one column; the previous one is freed
+    setMapping(next);
+  };
+
+  const renameCategory = (header: string, name: string) => {
+    if (!mapping || !name.trim()) return;
+    const next = withoutHeader(mapping, header);
+    next.categories[name.trim()] = header;
+    setMapping(next);
+  };
+
+  const runImport = async () => {
+    setBusy(true);
+    setError(null);
+    try {
+      const r = await postImport({ csv, channel, ratingScale, mapping });
+      setResult(r);
+      const s = r.saved;
+      setNotice(s
+        ? `Imported into “${channel}”: ${s.inserted} new, ${s.updated} updated, ${s.unchanged} unchanged${r.invalid ? `; ${r.invalid} rows skipped` : ''}.`
+        : 'Nothing to import.');
+      await loadImports();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Import failed');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const remove = async (name: string) => {
+    if (!window.confirm(`Remove every review imported as “${name}”?`)) return;
+    await fetch(`/api/reviews/import?channel=${encodeURIComponent(name)}`, { method: 'DELETE' });
+    await loadImports();
+  };
+
+  const cardCls = 'rounded-2xl border border-line bg-surface p-4';
+  const inputCls = 'bg-surface border border-line rounded-xl px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-brand/30';
+  const categoryOf = (header: string) => Object.entries(mapping?.categories ?? {}).find(([, h]) => h === header)?.[0] ?? '';
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex items-baseline gap-3">
+        <h1 className="text-2xl font-semibold text-ink">Import Reviews</h1>
+        <a href="/dashboard" className="text-sm text-brand hover:text-ink">← Reviews</a>
+      </div>
+      <p className="text-sm text-subtle">
+        Upload a CSV export from another channel (Airbnb, Booking.com, a guest survey…). Check how its columns map onto
+        reviews, preview the result, then import. Imported reviews keep their own channel and show up on the dashboard
+        next to Hostaway and Google.
+      </p>
+
+      <section className={`${cardCls} grid gap-3 sm:grid-cols-3`}>
+        <label className="flex flex-col gap-1 text-sm text-subtle">
+          CSV file
+          <input type="file" accept=".csv,text/csv" className="text-sm text-ink" onChange={e => onFile(e.target.files?.[0])} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-subtle">
+          Channel
+          <input className={inputCls} value={channel} maxLength={40} placeholder="e.g. Airbnb" onChange={e => setChannel(e.target.value)} />
+        </label>
+        <label className="flex flex-col gap-1 text-sm text-subtle">
+          Ratings in the file
+          <select className={inputCls} value={ratingScale} onChange={e => setRatingScale(Number(e.target.value) === 5 ? 5 : 10)}>
+            <option value={10}>0–10</option>
+            <option value={5}>1–5 stars (doubled onto 0–10)</option>
+          </select>
+        </label>
+      </section>
+
+      {error && <p className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700" role="alert">{error}</p>}
+      {notice && <p className="rounded-xl border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-800">{notice}</p>}
+
+      {result && mapping && (
+        <>
+          <section className={cardCls}>
+            <h2 className="mb-2 text-sm font-semibold text-ink">Columns in {fileName || 'the file'}</h2>
+            <div className="grid gap-2 sm:grid-cols-2 lg:grid-cols-3">
+              {result.headers.map(h => {
+                const value = assignmentOf(mapping, h);
+                return (
+                  <div key={h} className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="min-w-28 truncate font-medium text-ink" title={h}>{h}</span>
+                    <select className={inputCls} value={value} onChange={e => assign(h, e.target.value)} aria-label={`Map ${h}`}>
+                      <option value="">Ignore</option>
+                      {IMPORT_FIELDS.map(f => <option key={f} value={f}>{FIELD_LABELS[f]}</option>)}
+                      <option value={CATEGORY}>Category rating…</option>
+                    </select>
+                    {value === CATEGORY && (
+                      <input
+                        className={`${inputCls} w-32`}
+                        defaultValue={categoryOf(h)}
+                        aria-label={`Category name for ${h}`}
+                        onBlur={e => renameCategory(h, e.target.value)}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </section>
+
+          <section className={cardCls}>
+            <div className="mb-2 flex flex-wrap items-center justify-between gap-2">
+              <h2 className="text-sm font-semibold text-ink">
+                Preview{' '}
+                <span className="font-normal text-subtle">
+                  {result.valid} of {result.total} rows valid{result.invalid ? ` · ${result.invalid} with errors` : ''}
+                </span>
+              </h2>
+              <button
+                className="rounded-xl bg-brand px-3 py-1.5 text-sm text-white disabled:opacity-50"
+                disabled={busy || !channel.trim() || result.valid === 0}
+                onClick={runImport}
+                title={channel.trim() ? undefined : 'Name the channel first'}
+              >
+                {busy ? 'Importing…' : `Import ${result.valid} review${result.valid === 1 ? '' : 's'}`}
+              </button>
+            </div>
+
+            {result.preview.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-left text-sm">
+                  <thead className="text-xs text-subtle">
+                    <tr>
+                      <th className="py-1 pr-3">Date</th>
+                      <th className="pr-3">Listing</th>
+                      <th className="pr-3">Guest</th>
+                      <th className="pr-3">Rating</th>
+                      <th className="pr-3">Categories</th>
+                      <th>Text</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.preview.map(r => (
+                      <tr key={String(r.id)} className="border-t border-line align-top">
+                        <td className="py-1 pr-3 whitespace-nowrap text-subtle">{r.submittedAt.slice(0, 10)}</td>
+                        <td className="pr-3 text-ink">{r.listingName}</td>
+                        <td className="pr-3 text-ink">{r.guestName}</td>
+                        <td className="pr-3 text-ink">{r.rating ?? '–'}</td>
+                        <td className="pr-3 text-xs text-subtle">
+                          {r.reviewCategory.map(c => `${c.category} ${c.rating}`).join(', ') || '–'}
+                        </td>
+                        <td className="max-w-md truncate text-subtle" title={r.publicReview}>{r.publicReview || '–'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {result.errors.length > 0 && (
+              <ul className="mt-3 max-h-60 overflow-y-auto rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700">
+                {result.errors.map((e, i) => (
+                  <li key={i}>Row {e.row}{e.field ? ` · ${e.field}` : ''}: {e.message}</li>
+                ))}
+              </ul>
+            )}
+          </section>
+        </>
+      )}
+
+      <section className={cardCls}>
+        <h2 className="mb-2 text-sm font-semibold text-ink">Imported so far</h2>
+        {imports.length === 0 ? (
+          <p className="text-sm text-subtle">No imports yet.</p>
+        ) : (
+          <ul className="space-y-1 text-sm">
+            {imports.map(s => (
+              <li key={s.channel} className="flex items-center justify-between gap-2">
+                <span className="text-ink">
+                  {s.channel} <span className="text-subtle">· {s.count} reviews{s.lastImportAt ? ` · last ${new Date(s.lastImportAt).toLocaleString()}` : ''}</span>
+                </span>
+                <button className="rounded-lg border border-line px-2 py-0.5 text-xs text-subtle hover:text-ink" onClick={() => remove(s.channel)}>
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
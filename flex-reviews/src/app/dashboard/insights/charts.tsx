@@ -0,0 +1,206 @@
+// Small dependency-free SVG charts for the insights page.
+// Each chart draws into a fixed viewBox and scales to its container's width.
+
+// Brand first, then muted hues that stay distinguishable on white
+export const PALETTE = ['#053331', '#2a9d8f', '#e9c46a', '#f4a261', '#e76f51', '#6d597a', '#457b9d', '#8d99ae'];
+
+const W = 640;
+const PAD = { top: 12, right: 12, bottom: 28, left: 32 };
+
+type Series = { name: string; values: (number | null)[]; color: string; dashed?: boolean };
+
+export function Legend({ items }: { items: { name: string; color: string; dashed?: boolean }[] }) {
+  return (
+    <ul className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-subtle">
+      {items.map(it => (
+        <li key={it.name} className="inline-flex items-center gap-1.5">
+          <svg width="16" height="6" aria-hidden>
+            <line x1="0" y1="3" x2="16" y2="3" stroke={it.color} strokeWidth="2" strokeDasharray={it.dashed ? '4 3' : undefined} />
+          </svg>
+          {it.name}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/** Lines over shared x labels; a null value breaks the line (no reviews in that bucket). */
+export function LineChart({ labels, series, height = 220, yMax = 10 }: {
+  labels: string[];
+  series: Series[];
+  height?: number;
+  yMax?: number;
+}) {
+  const values = series.flatMap(s => s.values).filter((v): v is number => v !== null);
+  if (!labels.length || !values.length) return <Empty height={height} />;
+
+  // Ratings bunch up near the top of the scale, so start the axis just under the lowest value
+  const yMin = Math.max(0, Math.floor(Math.min(...values)) - 1);
+  const innerW = W - PAD.left - PAD.right;
+  const innerH = height - PAD.top - PAD.bottom;
+  const x = (i: number) => PAD.left + (labels.length === 1 ? innerW / 2 : (i / (labels.length - 1)) * innerW);
+  const y = (v: number) => PAD.top + (1 - (v - yMin) / (yMax - yMin || 1)) * innerH;
+  const ticks = Array.from({ length: yMax - yMin + 1 }, (_, i) => yMin + i);
+  const labelEvery = Math.max(1, Math.ceil(labels.length / 8));
+
+  return (
+    <svg viewBox={`0 0 ${W} ${height}`} className="h-auto w-full" role="img">
+      {ticks.map(t => (
+        <g key={t}>
+          <line x1={PAD.left} x2={W - PAD.right} y1={y(t)} y2={y(t)} stroke="var(--line)" />
+          <text x={PAD.left - 6} y={y(t) + 3} textAnchor="end" fontSize="10" fill="var(--subtle)">{t}</text>
+        </g>
+      ))}
+      {labels.map((l, i) => i % labelEvery === 0 && (
+        <text key={l} x={x(i)} y={height - 8} textAnchor="middle" fontSize="10" fill="var(--subtle)">{l}</text>
+      ))}
+      {series.map(s => {
+        // split into runs of consecutive non-null points
+        const runs: [number, number][][] = [[]];
+        s.values.forEach((v, i) => {
+          if (v === null) { if (runs[runs.length - 1].length) runs.push([]); }
+          else runs[runs.length - 1].push([x(i), y(v)]);
+        });
+        return (
+          <g key={s.name}>
+            {runs.filter(r => r.length > 1).map((r, k) => (
+              <polyline
+                key={k}
+                points={r.map(p => p.join(',')).join(' ')}
+                fill="none"
+                stroke={s.color}
+                strokeWidth="2"
+                strokeDasharray={s.dashed ? '5 4' : undefined}
+              />
+            ))}
+            {s.values.map((v, i) => v !== null && (
+              <circle key={i} cx={x(i)} cy={y(v)} r="2.5" fill={s.color}>
+                <title>{`${s.name} · ${labels[i]}: ${v}`}</title>
+              </circle>
+            ))}
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/** Vertical bars, e.g. a rating histogram. */
+export function BarChart({ bars, height = 200 }: { bars: { label: string; value: number }[]; height?: number }) {
+  const max = Math.max(0, ...bars.map(b => b.value));
+  if (!bars.length || max === 0) return <Empty height={height} />;
+
+  const innerW = W - PAD.left - PAD.right;
+  const innerH = height - PAD.top - PAD.bottom;
+  const slot = innerW / bars.length;
+
+  return (
+    <svg viewBox={`0 0 ${W} ${height}`} className="h-auto w-full" role="img">
+      <line x1={PAD.left} x2={W - PAD.right} y1={PAD.top + innerH} y2={PAD.top + innerH} stroke="var(--line)" />
+      {bars.map((b, i) => {
+        const h = (b.value / max) * innerH;
+        const bx = PAD.left + i * slot + slot * 0.15;
+        return (
+          <g key={b.label}>
+            <rect x={bx} y={PAD.top + innerH - h} width={slot * 0.7} height={h} rx="3" fill={PALETTE[0]}>
+              <title>{`${b.label}: ${b.value}`}</title>
+            </rect>
+            {b.value > 0 && (
+              <text x={bx + slot * 0.35} y={PAD.top + innerH - h - 3} textAnchor="middle" fontSize="10" fill="var(--ink)">{b.value}</text>
+            )}
+            <text x={bx + slot * 0.35} y={height - 8} textAnchor="middle" fontSize="10" fill="var(--subtle)">{b.label}</text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+/** One 100% stacked bar with a legend of counts and shares. */
+export function ShareBar({ parts }: { parts: { label: string; value: number }[] }) {
+  const total = parts.reduce((a, p) => a + p.value, 0);
+  if (total === 0) return <Empty height={60} />;
+
+  let offset = 0;
+  return (
+    <div>
+      <svg viewBox={`0 0 ${W} 28`} className="h-auto w-full" role="img">
+        {parts.map((p, i) => {
+          const w = (p.value / total) * W;
+          const rect = (
+            <rect key={p.label} x={offset} y="0" width={w} height="28" fill={PALETTE[i % PALETTE.length]}>
+              <title>{`${p.label}: ${p.value}`}</title>
+            </rect>
+          );
+          offset += w;
+          return rect;
+        })}
+      </svg>
+      <ul className="mt-2 flex flex-wrap gap-x-4 gap-y-1 text-xs text-subtle">
+        {parts.map((p, i) => (
+          <li key={p.label} className="inline-flex items-center gap-1.5">
+            <span className="inline-block h-2.5 w-2.5 rounded-sm" style={{ background: PALETTE[i % PALETTE.length] }} />
+            {p.label} <b className="text-ink">{p.value}</b> ({Math.round((p.value / total) * 100)}%)
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+/** Horizontal bars for a value on a 0–`max` scale, with a tick for a reference (e.g. portfolio average). */
+export function CompareBars({ rows, max = 10 }: {
+  rows: { label: string; value: number | null; reference: number | null }[];
+  max?: number;
+}) {
+  if (!rows.length) return <Empty height={60} />;
+
+  const rowH = 26;
+  const labelW = 150;
+  const deltaW = 48;
+  const barW = W - labelW - deltaW;
+  const height = rows.length * rowH;
+  const sx = (v: number) => labelW + (Math.min(max, Math.max(0, v)) / max) * barW;
+
+  return (
+    <svg viewBox={`0 0 ${W} ${height}`} className="h-auto w-full" role="img">
+      {rows.map((r, i) => {
+        const top = i * rowH;
+        const delta = r.value !== null && r.reference !== null ? Math.round((r.value - r.reference) * 100) / 100 : null;
+        return (
+          <g key={r.label}>
+            <text x={labelW - 8} y={top + 16} textAnchor="end" fontSize="11" fill="var(--ink)">{r.label}</text>
+            <rect x={labelW} y={top + 6} width={barW} height="12" rx="3" fill="var(--line)" />
+            {r.value !== null && (
+              <rect x={labelW} y={top + 6} width={sx(r.value) - labelW} height="12" rx="3" fill={PALETTE[1]}>
+                <title>{`${r.label}: ${r.value}`}</title>
+              </rect>
+            )}
+            {r.reference !== null && (
+              <line x1={sx(r.reference)} x2={sx(r.reference)} y1={top + 2} y2={top + 22} stroke={PALETTE[0]} strokeWidth="2">
+                <title>{`Portfolio: ${r.reference}`}</title>
+              </line>
+            )}
+            <text
+              x={W - 4}
+              y={top + 16}
+              textAnchor="end"
+              fontSize="11"
+              fill={delta === null ? 'var(--subtle)' : delta < 0 ? '#b91c1c' : '#047857'}
+            >
+              {delta === null ? '–' : `${delta > 0 ? '+' : ''}${delta}`}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
+
+function Empty({ height }: { height: number }) {
+  return (
+    <div className="flex items-center justify-center text-sm text-subtle" style={{ minHeight: Math.min(height, 120) }}>
+      No data for these filters
+    </div>
+  );
+}
@@ -0,0 +1,207 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import type { Interval, ReviewStats } from '@/lib/review-stats';
+import type { QueryError } from '@/lib/schema';
+import { filtersToApiParams, filtersToSearch, useDashboardFilters, type DashboardFilters } from '../filters';
+import { BarChart, CompareBars, Legend, LineChart, PALETTE, ShareBar } from './charts';
+
+const OVERALL = '';
+
+async function fetchStats(params: URLSearchParams): Promise<{ stats: ReviewStats | null; errors: QueryError[] }> {
+  const resp = await fetch(`/api/reviews/stats?${params}`);
+  const json = await resp.json();
+  if (resp.status === 400 && Array.isArray(json?.errors)) return { stats: null, errors: json.errors };
+  return { stats: json?.status === 'success' ? json.result : null, errors: [] };
+}
+
+function activeFilterLabels(f: DashboardFilters): string[] {
+  return [
+    f.q && `“${f.q}”`,
+    f.listing && `Listing: ${f.listing}`,
+    f.category && `Category: ${f.category}${f.min !== '' ? ` ≥ ${f.min}` : ''}`,
+    f.channel && `Channel: ${f.channel}`,
+    f.type && `Type: ${f.type}`,
+    f.topic && `Topic: ${f.topic}`,
+  ].filter((s): s is string => Boolean(s));
+}
+
+export default function InsightsPage() {
+  const { filters, ready } = useDashboardFilters();
+  const [interval, setBucketInterval] = useState<Interval>('month');
+  const [metric, setMetric] = useState(OVERALL); // '' = overall rating, else a category
+  const [compareListing, setCompareListing] = useState('');
+
+  // `focus` honours every filter; `portfolio` drops the listing so there's something to compare against
+  const [focus, setFocus] = useState<ReviewStats | null>(null);
+  const [portfolio, setPortfolio] = useState<ReviewStats | null>(null);
+  const [errors, setErrors] = useState<QueryError[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!ready) return;
+    let cancelled = false;
+
+    const params = filtersToApiParams(filters);
+    params.delete('sort');
+    params.delete('order');
+    params.set('include', 'google');
+    params.set('mock', '1');
+    params.set('interval', interval);
+    const withoutListing = new URLSearchParams(params);
+    withoutListing.delete('listing');
+
+    setLoading(true);
+    Promise.all([
+      fetchStats(params),
+      filters.listing ? fetchStats(withoutListing) : null,
+    ])
+      .then(([f, p]) => {
+        if (cancelled) return;
+        setErrors([...f.errors, ...(p?.errors ?? [])]);
+        setFocus(f.stats);
+        setPortfolio(p ? p.stats : f.stats);
+      })
+      .catch(() => { if (!cancelled) setErrors([{ param: 'stats', message: 'Could not load statistics' }]); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+
+    return () => { cancelled = true; };
+  }, [filters, interval, ready]);
+
+  const categories = useMemo(() => portfolio?.byCategory.map(c => c.category) ?? [], [portfolio]);
+  const listingNames = useMemo(() => portfolio?.byListing.map(l => l.listingName) ?? [], [portfolio]);
+  const selectedListing = compareListing || filters.listing || listingNames[0] || '';
+
+  // Trend: one line per listing for the chosen metric, portfolio dashed on top
+  const trend = useMemo(() => {
+    if (!portfolio) return { labels: [], series: [] };
+    const pick = (p: { avg: number | null; categories: Record<string, number | null> }) =>
+      metric === OVERALL ? p.avg : p.categories[metric] ?? null;
+    const listings = portfolio.byListing
+      .filter(l => !filters.listing || l.listingName === filters.listing)
+      .map((l, i) => ({ name: l.listingName, values: l.series.map(pick), color: PALETTE[(i + 1) % PALETTE.length] }));
+    return {
+      labels: portfolio.series.points.map(p => p.period),
+      series: [...listings, { name: 'Portfolio', values: portfolio.series.points.map(pick), color: PALETTE[0], dashed: true }],
+    };
+  }, [portfolio, metric, filters.listing]);
+
+  const comparison = useMemo(() => {
+    const l = portfolio?.byListing.find(x => x.listingName === selectedListing);
+    if (!portfolio || !l) return [];
+    return [
+      { label: 'Overall', value: l.avg, reference: portfolio.overall.avg },
+      ...portfolio.byCategory.map(c => ({ label: c.category, value: l.categories[c.category] ?? null, reference: c.avg })),
+    ];
+  }, [portfolio, selectedListing]);
+
+  const chips = activeFilterLabels(filters);
+  const cardCls = 'rounded-2xl border border-line bg-surface p-4';
+  const inputCls = 'bg-surface border border-line rounded-xl px-3 py-1.5 text-sm outline-none focus:ring-2 focus:ring-brand/30';
+  const deltas = focus?.deltas;
+
+  return (
+    <div className="p-6 space-y-4">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
+        <div className="flex items-baseline gap-3">
+          <h1 className="text-2xl font-semibold text-ink">Review Insights</h1>
+          <a href={`/dashboard?${filtersToSearch(filters)}`} className="text-sm text-brand hover:text-ink">← Reviews</a>
+        </div>
+        <div className="flex items-center gap-2">
+          <select className={inputCls} value={interval} onChange={e => setBucketInterval(e.target.value as Interval)} aria-label="Interval">
+            <option value="month">Monthly</option>
+            <option value="week">Weekly</option>
+          </select>
+        </div>
+      </div>
+
+      {/* Shared filters (edited on the reviews table) */}
+      <div className="flex flex-wrap items-center gap-2 text-xs">
+        <span className="text-subtle">Filters:</span>
+        {chips.length === 0 && <span className="text-subtle">none (all reviews)</span>}
+        {chips.map(c => (
+          <span key={c} className="rounded-full border border-line px-2 py-0.5 text-ink">{c}</span>
+        ))}
+      </div>
+
+      {errors.length > 0 && (
+        <ul className="rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-xs text-red-700" role="alert">
+          {errors.map((e, i) => <li key={i}>{e.message}</li>)}
+        </ul>
+      )}
+
+      {/* Headline numbers */}
+      <div className="flex flex-wrap gap-2 text-xs">
+        <span className="inline-flex items-center gap-2 rounded-full border border-line bg-surface px-3 py-1 text-subtle">
+          Reviews: <b className="text-ink">{focus?.overall.count ?? '–'}</b>
+        </span>
+        <span className="inline-flex items-center gap-2 rounded-full border border-line bg-surface px-3 py-1 text-subtle">
+          Avg rating: <b className="text-ink">{focus?.overall.avg ?? '–'}</b>
+        </span>
+        <span className="inline-flex items-center gap-2 rounded-full border border-line bg-surface px-3 py-1 text-subtle">
+          Approved: <b className="text-ink">{focus?.overall.approved ?? '–'}</b>
+        </span>
+        {deltas && (
+          <span
+            className="inline-flex items-center gap-2 rounded-full border border-line bg-surface px-3 py-1 text-subtle"
+            title={`${deltas.current.count} reviews in the last ${deltas.days} days vs ${deltas.previous.count} before`}
+          >
+            Last {deltas.days}d: <b className="text-ink">{deltas.change.count >= 0 ? '+' : ''}{deltas.change.count} reviews</b>
+            {deltas.change.avg !== null && <b className="text-ink">{deltas.change.avg >= 0 ? '+' : ''}{deltas.change.avg} avg</b>}
+          </span>
+        )}
+        {loading && <span className="px-1 py-1 text-subtle">Loading…</span>}
+      </div>
+
+      <div className={cardCls}>
+        <div className="mb-2 flex items-center justify-between gap-2">
+          <h2 className="text-sm font-semibold text-ink">Trend per listing</h2>
+          <select className={inputCls} value={metric} onChange={e => setMetric(e.target.value)} aria-label="Trend metric">
+            <option value={OVERALL}>Overall rating</option>
+            {categories.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+        <LineChart labels={trend.labels} series={trend.series} />
+        <Legend items={trend.series} />
+      </div>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <div className={cardCls}>
+          <h2 className="mb-2 text-sm font-semibold text-ink">Rating distribution</h2>
+          <BarChart bars={(focus?.overall.distribution ?? []).map((n, i) => ({ label: String(i), value: n }))} />
+        </div>
+
+        <div className={cardCls}>
+          <h2 className="mb-2 text-sm font-semibold text-ink">Channel mix</h2>
+          <ShareBar parts={(focus?.byChannel ?? []).map(c => ({ label: c.channel, value: c.count }))} />
+          <table className="mt-3 w-full text-xs">
+            <tbody>
+              {(focus?.byChannel ?? []).map(c => (
+                <tr key={c.channel} className="border-t border-line">
+                  <td className="py-1 text-ink">{c.channel}</td>
+                  <td className="py-1 text-right text-subtle">avg <b className="text-ink">{c.avg ?? '–'}</b></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className={cardCls}>
+        <div className="mb-2 flex items-center justify-between gap-2">
+          <h2 className="text-sm font-semibold text-ink">Listing vs portfolio</h2>
+          <select
+            className={inputCls}
+            value={selectedListing}
+            onChange={e => setCompareListing(e.target.value)}
+            aria-label="Listing to compare"
+          >
+            {listingNames.map(l => <option key={l} value={l}>{l}</option>)}
+          </select>
+        </div>
+        <CompareBars rows={comparison} />
+        <p className="mt-2 text-xs text-subtle">Bar: listing average · tick: portfolio average · right: difference.</p>
+      </div>
+    </div>
+  );
+}
@@ -1,166 +1,244 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
-
-type Review = {
-  id: number;
-  publicReview: string;
-  guestName: string;
-  listingName: string;
-  submittedAt: string;
-  submittedAtIso?: string;
-  reviewCategory: { category: string; rating: number | null }[];
-  channel?: string;
-  type?: string;
-  rating?: number | null;
-  approved?: boolean;
+import { Fragment, useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import type { Listing } from '@/lib/listings';
+import { averageRating } from '@/lib/ratings';
+import type { ReplyMap } from '@/lib/replies';
+import type { ReplyTemplate } from '@/lib/reply-templates';
+import { TOPICS, sentimentLabel, type TopicId } from '@/lib/review-analysis';
+import type { QueryError, Review } from '@/lib/schema';
+import AlertsPanel from './AlertsPanel';
+import ReplyEditor from './ReplyEditor';
+import { filtersToApiParams, filtersToSearch, useDashboardFilters, type SortKey, type SortOrder } from './filters';
+
+const TOPIC_LABEL = Object.fromEntries(TOPICS.map(t => [t.id, t.label])) as Record<TopicId, string>;
+const SENTIMENT_CLS = {
+  positive: 'border-emerald-200 bg-emerald-50 text-emerald-700',
+  neutral: 'border-line text-subtle',
+  negative: 'border-red-200 bg-red-50 text-red-700',
 };
 
-function useApprovals() {
-  const KEY = 'approvals';
-  const [map, setMap] = useState<Record<number, boolean>>(() => {
-    try { return JSON.parse(localStorage.getItem(KEY) || '{}'); } catch { return {}; }
+// Text with the given ranges wrapped in <mark> (search matches, or syntax errors)
+function Highlighted({
+  text,
+  ranges,
+  className = 'rounded bg-amber-100 px-0.5 text-ink',
+}: { text: string; ranges?: [number, number][]; className?: string }) {
+  if (!ranges?.length) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let at = 0;
+  [...ranges].sort((a, b) => a[0] - b[0]).forEach(([start, end], i) => {
+    start = Math.max(start, at);
+    if (end <= start) return;
+    if (start > at) parts.push(text.slice(at, start));
+    parts.push(<mark key={i} className={className}>{text.slice(start, end)}</mark>);
+    at = end;
   });
-  useEffect(() => { localStorage.setItem(KEY, JSON.stringify(map)); }, [map]);
-  const toggle = (id: number) => setMap(m => ({ ...m, [id]: !m[id] }));
-  const set = (id: number, v: boolean) => setMap(m => ({ ...m, [id]: v }));
-  return { map, toggle, set };
+  if (at < text.length) parts.push(text.slice(at));
+  return <>{parts}</>;
 }
 
-// --- helpers for sorting merged results ---
-function epochMs(r: Review): number {
-  const iso = r.submittedAtIso ?? (r.submittedAt ? r.submittedAt.replace(' ', 'T') + 'Z' : '');
-  const t = Date.parse(iso);
-  return Number.isNaN(t) ? 0 : t;
+// Approvals are persisted server-side via /api/reviews/approvals (keyed by review ID).
+function useApprovals() {
+  const [map, setMap] = useState<Record<string, boolean>>({});
+  useEffect(() => {
+    fetch('/api/reviews/approvals')
+      .then(r => r.json())
+      .then(j => { if (j?.status === 'success') setMap(j.result ?? {}); })
+      .catch(() => { /* keep server flags from the rows */ });
+  }, []);
+  const set = (id: number | string, v: boolean) => {
+    setMap(m => ({ ...m, [id]: v })); // optimistic
+    fetch('/api/reviews/approvals', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ id, approved: v }),
+    })
+      .then(r => r.json())
+      .then(j => { if (j?.status === 'success') setMap(j.result ?? {}); })
+      .catch(() => setMap(m => ({ ...m, [id]: !v }))); // roll back
+  };
+  return { map, set };
 }
-function sortCombined(rows: Review[], key: 'date' | 'rating', order: 'asc' | 'desc'): Review[] {
-  const out = [...rows];
-  if (key === 'date') {
-    out.sort((a, b) => epochMs(a) - epochMs(b));
-  } else {
-    out.sort((a, b) => {
-      const A = a.rating, B = b.rating;
-      if (A == null && B == null) return 0;
-      if (A == null) return 1;
-      if (B == null) return -1;
-      return A - B;
-    });
-  }
-  if (order === 'desc') out.reverse();
-  return out;
+
+// Host replies (drafts + published) and templates, via /api/reviews/replies
+function useReplies() {
+  const [map, setMap] = useState<ReplyMap>({});
+  const [templates, setTemplates] = useState<ReplyTemplate[]>([]);
+  useEffect(() => {
+    fetch('/api/reviews/replies')
+      .then(r => r.json())
+      .then(j => { if (j?.status === 'success') setMap(j.result ?? {}); })
+      .catch(() => { /* replies column stays empty */ });
+    fetch('/api/reviews/replies/templates')
+      .then(r => r.json())
+      .then(j => { if (j?.status === 'success') setTemplates(j.result ?? []); })
+      .catch(() => { /* no templates */ });
+  }, []);
+
+  const send = async (url: string, method: 'PUT' | 'POST', id: number | string, body: string) => {
+    try {
+      const resp = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ reviewId: id, body }),
+      });
+      const j = await resp.json();
+      if (j?.status !== 'success') return j?.errors?.[0]?.message ?? 'Request failed';
+      setMap(m => ({ ...m, [String(id)]: j.result }));
+      return null;
+    } catch {
+      return 'Network error';
+    }
+  };
+  const save = (id: number | string, body: string) => send('/api/reviews/replies', 'PUT', id, body);
+  const publish = (id: number | string, body: string) => send('/api/reviews/replies/publish', 'POST', id, body);
+  return { map, templates, save, publish };
 }
 
+// Rows per request; further pages load as the table is scrolled
+const PAGE_SIZE = 100;
+// Webhook/sync updates land in the review store; page one is re-pulled on this interval
+const REFRESH_MS = 15_000;
+
+type SourceReport = {
+  name: string;
+  status: 'ok' | 'partial' | 'error' | 'skipped';
+  count: number;
+  mode?: string;
+  errors?: string[];
+};
+
 export default function DashboardPage() {
   const [reviews, setReviews] = useState<Review[]>([]);
+  const [sources, setSources] = useState<SourceReport[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [filterErrors, setFilterErrors] = useState<QueryError[]>([]);
 
-  // existing filters
-  const [q, setQ] = useState('');
-  const [listing, setListing] = useState('');
-  const [category, setCategory] = useState('');
-  const [min, setMin] = useState<number | ''>('');
+  // Filters live in the URL and are shared with /dashboard/insights
+  const { filters, update, reset, ready } = useDashboardFilters();
+  const { q, listing, category, min, channel, type, topic, sort: sortKey, order: sortOrder } = filters;
 
-  // NEW filters
-  const [channel, setChannel] = useState('');
-  const [type, setType] = useState('');
-  const [sortKey, setSortKey] = useState<'date' | 'rating'>('date');
-  const [sortOrder, setSortOrder] = useState<'asc' | 'desc'>('desc');
+  // Relevance only means something while searching
+  useEffect(() => {
+    if (!q && sortKey === 'relevance') update({ sort: 'date' });
+  }, [q, sortKey, update]);
 
   const { map, set: setApproval } = useApprovals();
+  const replies = useReplies();
+  const [replyOpen, setReplyOpen] = useState<string | null>(null);
+
+  // Filter params shared by the first page and every "load more" request
+  const filterQuery = useMemo(() => {
+    const p = filtersToApiParams(filters);
+    p.set('mock', '1');
+    p.set('limit', String(PAGE_SIZE));
+    return p.toString();
+  }, [filters]);
+
+  // Downloads exactly the filtered set shown here (merged, all pages, same sort)
+  const exportHref = (format: 'csv' | 'xlsx' | 'ndjson') => {
+    const p = filtersToApiParams(filters);
+    p.set('include', 'google');
+    p.set('mock', '1');
+    p.set('format', format);
+    return `/api/reviews/export?${p}`;
+  };
+
+  // Guards against appending a page that belongs to a previous filter set
+  const activeQuery = useRef(filterQuery);
 
-  // Fetch data based on filters
+  // Periodic refresh while visible — skipped once extra pages are loaded so the scroll isn't reset
+  const [refreshTick, setRefreshTick] = useState(0);
+  const loadedCount = useRef(0);
+  useEffect(() => { loadedCount.current = reviews.length; }, [reviews]);
   useEffect(() => {
+    const t = setInterval(() => {
+      if (document.visibilityState === 'visible' && loadedCount.current <= PAGE_SIZE) {
+        setRefreshTick(n => n + 1);
+      }
+    }, REFRESH_MS);
+    return () => clearInterval(t);
+  }, []);
+
+  // Fetch the first page whenever filters change (or the refresh timer fires)
+  useEffect(() => {
+    if (!ready) return;
     let cancelled = false;
-    const origin = window.location.origin;
+    activeQuery.current = filterQuery;
 
     async function load() {
-      // 1) Hostaway (or mock) via our API with current filters
-      const url = new URL('/api/reviews/hostaway', origin);
-      if (q) url.searchParams.set('q', q);
-      if (listing) url.searchParams.set('listing', listing);
-      if (category) url.searchParams.set('category', category);
-      if (min !== '') url.searchParams.set('min', String(min));
-      if (channel) url.searchParams.set('channel', channel);
-      if (type) url.searchParams.set('type', type);
-      if (sortKey) url.searchParams.set('sort', sortKey);
-      if (sortOrder) url.searchParams.set('order', sortOrder);
-
-      const baseResp = await fetch(url);
-      const baseJson = await baseResp.json();
-      const base: Review[] = Array.isArray(baseJson?.result) ? baseJson.result : [];
-      if (cancelled) return;
-
-      const channelLc = channel.toLowerCase();
-      const channelAllowsGoogle = channel === '' || channelLc === 'google';
-
-      // A) Listing selected → fetch Google for that listing (mock mode)
-      if (listing && channelAllowsGoogle) {
-        try {
-          const gUrl = new URL('/api/reviews/google', origin);
-          gUrl.searchParams.set('listing', listing);
-          gUrl.searchParams.set('mock', '1');
-          gUrl.searchParams.set('limit', 'all');
-          const gResp = await fetch(gUrl);
-          const gJson = await gResp.json();
-          const gRows: Review[] = Array.isArray(gJson?.result) ? gJson.result : [];
-          if (cancelled) return;
-          setReviews(sortCombined([...base, ...gRows], sortKey, sortOrder));
-          return;
-        } catch {
-          if (!cancelled) setReviews(base);
+      // Hostaway, Google (mock) and imports merged, filtered and sorted server-side
+      try {
+        const resp = await fetch(`/api/reviews?${filterQuery}`);
+        const json = await resp.json();
+        if (cancelled) return;
+        // Bad filter syntax → keep the last good rows and underline the problem
+        if (resp.status === 400 && Array.isArray(json?.errors)) {
+          setFilterErrors(json.errors);
           return;
         }
+        setFilterErrors([]);
+        setReviews(Array.isArray(json?.result) ? json.result : []);
+        setTotalCount(typeof json?.total === 'number' ? json.total : 0);
+        setNextCursor(json?.nextCursor ?? null);
+        setSources(Array.isArray(json?.sources) ? json.sources : []);
+      } catch {
+        if (!cancelled) setSources([{ name: 'reviews', status: 'error', count: 0 }]);
       }
-
-      // B) No listing selected and Google is allowed → fetch Google for EVERY listing
-      if (!listing && channelAllowsGoogle) {
-        // If Channel=Google, base may be empty. Fetch names without the channel filter.
-        let baseForNames: Review[] = base;
-        if (channelLc === 'google' && base.length === 0) {
-          const namesUrl = new URL('/api/reviews/hostaway', origin);
-          if (q) namesUrl.searchParams.set('q', q);
-          if (category) namesUrl.searchParams.set('category', category);
-          if (min !== '') namesUrl.searchParams.set('min', String(min));
-          if (type) namesUrl.searchParams.set('type', type);
-          // intentionally DO NOT set channel here
-          const namesResp = await fetch(namesUrl);
-          const namesJson = await namesResp.json();
-          baseForNames = Array.isArray(namesJson?.result) ? namesJson.result : [];
-          if (cancelled) return;
-        }
-
-        const uniqueListings = Array.from(new Set(baseForNames.map(r => r.listingName))).filter(Boolean);
-        const promises = uniqueListings.map((name) => {
-          const gUrl = new URL('/api/reviews/google', origin);
-          gUrl.searchParams.set('listing', name);
-          gUrl.searchParams.set('mock', '1');
-          gUrl.searchParams.set('limit', 'all');
-          return fetch(gUrl)
-            .then(r => r.json())
-            .then(j => (Array.isArray(j?.result) ? (j.result as Review[]) : []))
-            .catch(() => []);
-        });
-
-        const settled = await Promise.allSettled(promises);
-        if (cancelled) return;
-
-        const gRows = settled.flatMap(s => (s.status === 'fulfilled' ? s.value : []));
-        setReviews(sortCombined([...base, ...gRows], sortKey, sortOrder));
-        return;
-      }
-
-      // C) Channel excludes Google → show Hostaway-only
-      setReviews(base);
     }
 
     load();
     return () => { cancelled = true; };
-  }, [q, listing, category, min, channel, type, sortKey, sortOrder]);
+  }, [filterQuery, refreshTick, ready]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || loadingMore) return;
+    const forQuery = filterQuery;
+    setLoadingMore(true);
+    try {
+      const p = new URLSearchParams(forQuery);
+      p.set('cursor', nextCursor);
+      const resp = await fetch(`/api/reviews?${p}`);
+      const json = await resp.json();
+      if (activeQuery.current !== forQuery) return;
+      const page: Review[] = Array.isArray(json?.result) ? json.result : [];
+      setReviews(prev => [...prev, ...page]);
+      setNextCursor(json?.nextCursor ?? null);
+    } catch {
+      /* leave the cursor in place so scrolling retries */
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [filterQuery, nextCursor, loadingMore]);
+
+  // Infinite scroll: load the next page when the sentinel row nears the viewport
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const sentinelRef = useRef<HTMLTableRowElement>(null);
+  useEffect(() => {
+    const el = sentinelRef.current;
+    if (!el) return;
+    const io = new IntersectionObserver(
+      (entries) => { if (entries.some(e => e.isIntersecting)) loadMore(); },
+      { root: scrollRef.current, rootMargin: '400px 0px' }
+    );
+    io.observe(el);
+    return () => io.disconnect();
+  }, [loadMore]);
+
+  // Listing options come from the catalog, not from whichever reviews are loaded
+  const [catalog, setCatalog] = useState<Listing[]>([]);
+  useEffect(() => {
+    fetch('/api/listings')
+      .then(r => r.json())
+      .then(j => { if (j?.status === 'success') setCatalog(j.result ?? []); })
+      .catch(() => { /* dropdowns stay empty */ });
+  }, []);
+  const listings = useMemo(() => catalog.map(l => l.name), [catalog]);
 
   // Options (derived from results)
-  const listings = useMemo(
-    () => Array.from(new Set(reviews.map(r => r.listingName))).sort(),
-    [reviews]
-  );
 
   const cats = useMemo(() => {
     const s = new Set<string>();
@@ -178,6 +256,8 @@ export default function DashboardPage() {
     [reviews]
   );
 
+  const failedSources = sources.filter(s => s.status === 'error' || s.status === 'partial');
+
   // Helpers
   const formatDate = (r: Review) => {
     const iso = r.submittedAtIso ?? (r.submittedAt.replace(' ', 'T') + 'Z');
@@ -185,16 +265,14 @@ export default function DashboardPage() {
     return isNaN(d.getTime()) ? r.submittedAt : d.toLocaleDateString();
   };
 
-  const isApproved = (r: Review) => (r.approved === true) || !!map[r.id];
+  const isApproved = (r: Review) => map[String(r.id)] ?? (r.approved === true);
 
-  // Quick stats for header chips
-  const total = reviews.length;
+  // Quick stats for header chips (total is server-side; the rest cover loaded rows)
+  const total = totalCount;
   const approvedCount = reviews.reduce((acc, r) => acc + (isApproved(r) ? 1 : 0), 0);
   const avgRating = useMemo(() => {
-    const vals = reviews.map(r => r.rating).filter((n): n is number => n != null);
-    if (!vals.length) return null;
-    const mean = vals.reduce((a, b) => a + b, 0) / vals.length;
-    return Math.round(mean * 10) / 10;
+    const mean = averageRating(reviews); // derived overall scores included
+    return mean === null ? null : Math.round(mean * 10) / 10;
   }, [reviews]);
 
   // Input styling (uses brand tokens)
@@ -204,8 +282,9 @@ export default function DashboardPage() {
   // Public view quick-nav
   const [publicListing, setPublicListing] = useState<string>('');
   const openPublic = (variant: 'property' | 'reviews') => {
-    if (!publicListing) return;
-    const base = `/properties/${encodeURIComponent(publicListing)}`;
+    const slug = catalog.find(l => l.name === publicListing)?.slug;
+    if (!slug) return;
+    const base = `/properties/${slug}`;
     const href = variant === 'property' ? base : `${base}/reviews`;
     window.open(href, '_blank', 'noopener,noreferrer');
   };
@@ -214,7 +293,29 @@ export default function DashboardPage() {
     <div className="p-6 space-y-4">
       {/* Title row with stats and public view dropdown */}
       <div className="flex flex-col gap-2 sm:flex-row sm:items-end sm:justify-between">
-        <h1 className="text-2xl font-semibold text-ink">Manager Reviews Dashboard</h1>
+        <div className="flex items-baseline gap-3">
+          <h1 className="text-2xl font-semibold text-ink">Manager Reviews Dashboard</h1>
+          <a href={`/dashboard/insights?${filtersToSearch(filters)}`} className="text-sm text-brand hover:text-ink">
+            Insights →
+          </a>
+          <a href="/dashboard/import" className="text-sm text-brand hover:text-ink">
+            Import
+          </a>
+          <a href="/dashboard/google" className="text-sm text-brand hover:text-ink">
+            Google places
+          </a>
+          <span className="text-sm text-subtle">
+            Export:{' '}
+            {(['csv', 'xlsx', 'ndjson'] as const).map((f, i) => (
+              <span key={f}>
+                {i > 0 && ' · '}
+                <a href={exportHref(f)} download className="text-brand hover:text-ink" title={`Download the filtered reviews as ${f.toUpperCase()}`}>
+                  {f.toUpperCase()}
+                </a>
+              </span>
+            ))}
+          </span>
+        </div>
 
         <div className="flex flex-col-reverse gap-2 sm:flex-row sm:items-center sm:gap-3">
           {/* Quick counters */}
@@ -222,12 +323,20 @@ export default function DashboardPage() {
             <span className="inline-flex items-center gap-2 rounded-full border border-line bg-surface px-3 py-1 text-xs text-subtle">
               Total: <b className="text-ink">{total}</b>
             </span>
-            <span className="inline-flex items-center gap-2 rounded-full border border-line bg-surface px-3 py-1 text-xs text-subtle">
+            <span className="inline-flex items-center gap-2 rounded-full border border-line bg-surface px-3 py-1 text-xs text-subtle" title="Across loaded rows">
               Approved: <b className="text-ink">{approvedCount}</b>
             </span>
-            <span className="inline-flex items-center gap-2 rounded-full border border-line bg-surface px-3 py-1 text-xs text-subtle">
+            <span className="inline-flex items-center gap-2 rounded-full border border-line bg-surface px-3 py-1 text-xs text-subtle" title="Across loaded rows">
               Avg rating: <b className="text-ink">{avgRating ?? '–'}</b>
             </span>
+            {failedSources.length > 0 && (
+              <span
+                className="inline-flex items-center gap-2 rounded-full border border-amber-300 bg-amber-50 px-3 py-1 text-xs text-amber-800"
+                title={failedSources.flatMap(s => s.errors ?? [`${s.name}: ${s.mode ?? s.status}`]).join('\n')}
+              >
+                Degraded: <b>{failedSources.map(s => s.name).join(', ')}</b>
+              </span>
+            )}
           </div>
 
           {/* Public view quick-nav */}
@@ -263,21 +372,24 @@ export default function DashboardPage() {
         </div>
       </div>
 
+      <AlertsPanel refreshKey={refreshTick} />
+
       {/* Sticky filter toolbar */}
       <div className="sticky top-0 z-10 -mx-6 border-b border-line bg-surface/90 px-6 py-3 backdrop-blur">
         <div className="grid gap-2 sm:grid-cols-4">
           <input
             className={inputCls}
-            placeholder="Search text / guest / listing"
+            placeholder='Search or filter: listing:"Shoreditch" cleanliness<7 rating:>=8 "check-in"'
             value={q}
-            onChange={e => setQ(e.target.value)}
+            onChange={e => update({ q: e.target.value })}
             aria-label="Search"
+            aria-invalid={filterErrors.length > 0}
           />
 
           <select
             className={inputCls}
             value={listing}
-            onChange={e => setListing(e.target.value)}
+            onChange={e => update({ listing: e.target.value })}
             aria-label="Listing"
           >
             <option value="">All listings</option>
@@ -287,7 +399,7 @@ export default function DashboardPage() {
           <select
             className={inputCls}
             value={category}
-            onChange={e => setCategory(e.target.value)}
+            onChange={e => update({ category: e.target.value })}
             aria-label="Category"
           >
             <option value="">Any category</option>
@@ -299,17 +411,34 @@ export default function DashboardPage() {
             type="number" min={0} max={10}
             placeholder="Min cat rating"
             value={min}
-            onChange={e => setMin(e.target.value === '' ? '' : Number(e.target.value))}
+            onChange={e => update({ min: e.target.value === '' ? '' : Number(e.target.value) })}
             aria-label="Minimum category rating"
           />
         </div>
 
+        {filterErrors.length > 0 && (
+          <div className="mt-2 rounded-xl border border-red-200 bg-red-50 px-3 py-2 text-xs" role="alert">
+            <p className="font-mono whitespace-pre-wrap text-ink">
+              <Highlighted
+                text={q}
+                ranges={filterErrors
+                  .filter(e => e.start !== undefined && e.end !== undefined)
+                  .map(e => [e.start!, Math.max(e.end!, e.start! + 1)] as [number, number])}
+                className="bg-transparent text-red-700 underline decoration-wavy decoration-red-500"
+              />
+            </p>
+            <ul className="mt-1 list-disc pl-4 text-red-700">
+              {filterErrors.map((e, i) => <li key={i}>{e.message}</li>)}
+            </ul>
+          </div>
+        )}
+
         {/* second row */}
-        <div className="mt-2 grid gap-2 sm:grid-cols-4">
+        <div className="mt-2 grid gap-2 sm:grid-cols-5">
           <select
             className={inputCls}
             value={channel}
-            onChange={e => setChannel(e.target.value)}
+            onChange={e => update({ channel: e.target.value })}
             aria-label="Channel"
           >
             <option value="">All channels</option>
@@ -319,28 +448,39 @@ export default function DashboardPage() {
           <select
             className={inputCls}
             value={type}
-            onChange={e => setType(e.target.value)}
+            onChange={e => update({ type: e.target.value })}
             aria-label="Type"
           >
             <option value="">All types</option>
             {typeOptions.map(t => <option key={t} value={t}>{t}</option>)}
           </select>
 
+          <select
+            className={inputCls}
+            value={topic}
+            onChange={e => update({ topic: e.target.value })}
+            aria-label="Topic"
+          >
+            <option value="">Any topic</option>
+            {TOPICS.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+          </select>
+
           <select
             className={inputCls}
             value={sortKey}
-            onChange={e => setSortKey(e.target.value as 'date' | 'rating')}
+            onChange={e => update({ sort: e.target.value as SortKey })}
             aria-label="Sort key"
           >
             <option value="date">Sort by date</option>
             <option value="rating">Sort by overall rating</option>
+            <option value="relevance" disabled={!q}>Sort by relevance</option>
           </select>
 
           <div className="flex gap-2">
             <select
               className={inputCls}
               value={sortOrder}
-              onChange={e => setSortOrder(e.target.value as 'asc' | 'desc')}
+              onChange={e => update({ order: e.target.value as SortOrder })}
               aria-label="Sort order"
             >
               <option value="desc">Order: Desc</option>
@@ -348,7 +488,7 @@ export default function DashboardPage() {
             </select>
             <button
               className="whitespace-nowrap rounded-xl border border-line bg-surface px-3 text-sm text-subtle hover:text-ink"
-              onClick={() => { setQ(''); setListing(''); setCategory(''); setMin(''); setChannel(''); setType(''); setSortKey('date'); setSortOrder('desc'); }}
+              onClick={reset}
               aria-label="Clear filters"
             >
               Clear
@@ -358,7 +498,7 @@ export default function DashboardPage() {
       </div>
 
       {/* Table */}
-      <div className="rounded-2xl border border-line bg-surface max-h-[calc(100vh-200px)] overflow-auto">
+      <div ref={scrollRef} className="rounded-2xl border border-line bg-surface max-h-[calc(100vh-200px)] overflow-auto">
         <table className="w-full text-sm">
           <thead className="text-left border-b border-line bg-surface sticky top-0 z-10">
             <tr className="text-xs uppercase tracking-wide text-subtle">
@@ -374,41 +514,112 @@ export default function DashboardPage() {
             </tr>
           </thead>
           <tbody>
-            {reviews.map(r => (
-              <tr
-                key={r.id}
-                className="border-b border-line align-top odd:bg-[rgba(0,0,0,0.015)] hover:bg-[rgba(0,0,0,0.03)]"
-              >
-                <td className="py-3 px-3">
-                  <input
-                    type="checkbox"
-                    className="accent-brand"
-                    checked={isApproved(r)}
-                    onChange={() => setApproval(r.id, !isApproved(r))}
-                    aria-label={`Approve review ${r.id}`}
-                  />
-                </td>
-                <td className="px-3 text-ink">{r.listingName}</td>
-                <td className="px-3">{r.guestName}</td>
-                <td className="px-3 text-subtle">{formatDate(r)}</td>
-                <td className="px-3 max-w-[52ch]">
-                  <span className="text-ink">{r.publicReview}</span>
+            {reviews.map(r => {
+              const reply = replies.map[String(r.id)];
+              // Google replies need Business Profile access; imported rows have nowhere to publish to
+              const canReply = r.channel !== 'Google' && !r.importedAt;
+              return (
+                <Fragment key={r.id}>
+                  <tr
+                    className="border-b border-line align-top odd:bg-[rgba(0,0,0,0.015)] hover:bg-[rgba(0,0,0,0.03)]"
+                  >
+                    <td className="py-3 px-3">
+                      <input
+                        type="checkbox"
+                        className="accent-brand"
+                        checked={isApproved(r)}
+                        onChange={() => setApproval(r.id, !isApproved(r))}
+                        aria-label={`Approve review ${r.id}`}
+                      />
+                    </td>
+                    <td className="px-3 text-ink">{r.listingName}</td>
+                    <td className="px-3">{r.guestName}</td>
+                    <td className="px-3 text-subtle">{formatDate(r)}</td>
+                    <td className="px-3 max-w-[52ch]">
+                      <span className="text-ink"><Highlighted text={r.publicReview} ranges={r.highlights} /></span>
+                      {(r.topics?.length || r.sentiment !== undefined) && (
+                        <div className="mt-1 flex flex-wrap items-center gap-1 text-xs">
+                          {r.sentiment !== undefined && (
+                            <span
+                              className={`rounded-full border px-2 py-0.5 ${SENTIMENT_CLS[sentimentLabel(r.sentiment)]}`}
+                              title={`Sentiment ${r.sentiment}`}
+                            >
+                              {sentimentLabel(r.sentiment)}
+                            </span>
+                          )}
+                          {r.topics?.map(t => (
+                            <button
+                              key={t}
+                              className={`rounded-full border px-2 py-0.5 ${topic === t ? 'border-brand text-brand' : 'border-line text-subtle hover:text-ink'}`}
+                              onClick={() => update({ topic: topic === t ? '' : t })}
+                              title={topic === t ? 'Clear topic filter' : 'Filter by this topic'}
+                            >
+                              {TOPIC_LABEL[t] ?? t}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                      {canReply && (
+                        <div className="mt-1 flex items-center gap-2 text-xs">
+                          {reply && (
+                            <span className="rounded-full border border-line px-2 py-0.5 text-subtle">
+                              {reply.status === 'published' ? 'Replied' : 'Draft reply'}
+                            </span>
+                          )}
+                          <button
+                            className="text-brand hover:text-ink"
+                            onClick={() => setReplyOpen(o => (o === String(r.id) ? null : String(r.id)))}
+                          >
+                            {reply ? 'Edit reply' : 'Reply'}
+                          </button>
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-3">
+                      {r.reviewCategory?.map(c => (
+                        <span
+                          key={c.category}
+                          className="mr-2 inline-flex items-center rounded-full border border-line px-2 py-0.5 text-xs text-subtle"
+                        >
+                          {c.category}: <b className="ml-1 text-ink">{c.rating ?? '-'}</b>
+                        </span>
+                      ))}
+                    </td>
+                    <td className="px-3 text-subtle">{r.channel ?? '-'}</td>
+                    <td className="px-3 text-subtle">{r.type ?? '-'}</td>
+                    <td className="px-3 text-ink">
+                      {r.overallRating != null ? (
+                        <span title={r.ratingDerived ? 'Derived from the category ratings' : `Rated /${r.ratingScale ?? 10} on ${r.channel ?? 'the channel'}`}>
+                          {r.ratingDerived && <span className="text-subtle">≈</span>}
+                          {Math.round(r.overallRating * 10) / 10}
+                        </span>
+                      ) : '-'}
+                    </td>
+                  </tr>
+                  {replyOpen === String(r.id) && (
+                    <tr className="border-b border-line">
+                      <td colSpan={9} className="px-3 py-3">
+                        <ReplyEditor
+                          review={r}
+                          reply={reply}
+                          templates={replies.templates}
+                          onSave={(body) => replies.save(r.id, body)}
+                          onPublish={(body) => replies.publish(r.id, body)}
+                          onClose={() => setReplyOpen(null)}
+                        />
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              );
+            })}
+            {nextCursor && (
+              <tr ref={sentinelRef}>
+                <td colSpan={9} className="py-4 text-center text-xs text-subtle">
+                  {loadingMore ? 'Loading more…' : `Showing ${reviews.length} of ${total}`}
                 </td>
-                <td className="px-3">
-                  {r.reviewCategory?.map(c => (
-                    <span
-                      key={c.category}
-                      className="mr-2 inline-flex items-center rounded-full border border-line px-2 py-0.5 text-xs text-subtle"
-                    >
-                      {c.category}: <b className="ml-1 text-ink">{c.rating ?? '-'}</b>
-                    </span>
-                  ))}
-                </td>
-                <td className="px-3 text-subtle">{r.channel ?? '-'}</td>
-                <td className="px-3 text-subtle">{r.type ?? '-'}</td>
-                <td className="px-3 text-ink">{r.rating ?? '-'}</td>
               </tr>
-            ))}
+            )}
             {reviews.length === 0 && (
               <tr>
                 <td colSpan={9} className="py-12 text-center text-subtle">
@@ -421,9 +632,8 @@ export default function DashboardPage() {
       </div>
 
       <p className="text-xs text-subtle">
-        Note: Approval states use a union of server-approved and your local selections for the demo.
-        In production, this would live in a DB (Vercel KV/Postgres) keyed by review ID, and the
-        public page would query <code>approvedOnly=true</code>.
+        Note: Approvals are saved on the server keyed by review ID; the public pages only show
+        reviews returned with <code>approvedOnly=true</code>.
       </p>
     </div>
   );
@@ -1,5 +1,6 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import { SITE_NAME, SITE_URL } from "@/lib/site";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -13,8 +14,11 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  // canonical and OpenGraph URLs are relative to this; set SITE_URL to the deployed origin
+  metadataBase: new URL(SITE_URL),
+  title: { default: `${SITE_NAME} — Guest Reviews`, template: `%s · ${SITE_NAME}` },
+  description: "Guest reviews for The Flex's serviced apartments, and the manager dashboard behind them.",
+  openGraph: { siteName: SITE_NAME, type: "website" },
 };
 
 export default function RootLayout({
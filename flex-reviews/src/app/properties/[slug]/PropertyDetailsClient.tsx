@@ -1,20 +1,10 @@
 'use client';
 
-import { useEffect, useMemo, useState } from "react";
-
-type CategoryRating = { category: string; rating: number | null };
-type Review = {
-  id: number | string;
-  publicReview: string;
-  listingName: string;
-  guestName: string;
-  submittedAt: string;
-  submittedAtIso?: string;
-  reviewCategory: CategoryRating[];
-  approved?: boolean;
-  channel?: string;          // may be "Google"
-  rating?: number | null;    // may be /10 in your data
-};
+import { Fragment, useMemo, useState } from "react";
+import type { PlaceSummary } from "@/lib/google-places";
+import type { Listing } from "@/lib/listings";
+import { averageRating } from "@/lib/ratings";
+import type { Review } from "@/lib/schema";
 
 function Bullet() {
   return <span aria-hidden className="mx-2 text-subtle">•</span>;
@@ -37,87 +27,51 @@ function Section({ title, children, id }: { title: string; children: React.React
   );
 }
 
-// --- helpers ---
-function epochMs(r: Review): number {
-  const isoish = r.submittedAtIso ?? (r.submittedAt ? r.submittedAt.replace(' ', 'T') + 'Z' : '');
-  const t = Date.parse(isoish);
-  return Number.isNaN(t) ? 0 : t;
-}
-function sortByDateDesc(rows: Review[]): Review[] {
-  return [...rows].sort((a, b) => epochMs(b) - epochMs(a));
+function plural(n: number, one: string, many = `${one}s`) {
+  return `${n} ${n === 1 ? one : many}`;
 }
 
-export default function PropertyDetailsClient({ slug }: { slug: string }) {
-  const [reviews, setReviews] = useState<Review[]>([]);
-  const [approvals, setApprovals] = useState<Record<number, boolean>>({});
+// Only AMENITIES_SHOWN amenities until "Show all"
+const AMENITIES_SHOWN = 12;
+
+// Server-rendered with the approved reviews and Google summary (see page.tsx); only the toggles are client state
+export default function PropertyDetailsClient({
+  listing,
+  reviews,
+  googlePlace,
+}: {
+  listing: Listing;
+  reviews: Review[];
+  googlePlace: PlaceSummary | null;
+}) {
   const [aboutOpen, setAboutOpen] = useState(false);
   const [showAllAmenities, setShowAllAmenities] = useState(false);
 
-  // Fetch Hostaway + Google for this listing; then show approved-only (server OR local demo)
-  useEffect(() => {
-    let cancelled = false;
-    const origin = window.location.origin;
-
-    async function load() {
-      // Hostaway (or mock) first
-      const hUrl = new URL('/api/reviews/hostaway', origin);
-      hUrl.searchParams.set('listing', slug);
-      hUrl.searchParams.set('sort', 'date');
-      hUrl.searchParams.set('order', 'desc');
-      const hResp = await fetch(hUrl);
-      const hJson = await hResp.json();
-      const hostawayRows: Review[] = Array.isArray(hJson?.result) ? hJson.result : [];
-
-      // Then Google for this listing (basic integration, fail-soft)
-      let merged = hostawayRows;
-      try {
-        const gUrl = new URL('/api/reviews/google', origin);
-        gUrl.searchParams.set('listing', slug);
-        gUrl.searchParams.set('mock', '1'); // enable mock Google reviews
-        const gResp = await fetch(gUrl);
-        const gJson = await gResp.json();
-        const googleRows: Review[] = Array.isArray(gJson?.result) ? gJson.result : [];
-        if (googleRows.length) merged = sortByDateDesc([...hostawayRows, ...googleRows]);
-      } catch {
-        // ignore Google failures; keep Hostaway
-      }
+  const approved = reviews;
 
-      if (!cancelled) setReviews(merged);
-
-      // local approvals (demo)
-      try {
-        const raw = localStorage.getItem('approvals') || '{}';
-        if (!cancelled) setApprovals(JSON.parse(raw));
-      } catch {
-        /* noop */
-      }
-    }
-
-    load();
-    return () => { cancelled = true; };
-  }, [slug]);
-
-  const approved = useMemo(
-    () => reviews.filter(r => r.approved === true || approvals[Number(r.id)] === true),
-    [reviews, approvals]
-  );
-
-  // /10 → /5 if needed
+  // Overall scores are always 0–10 (derived from categories where the channel gave none) → 5 stars
   const avg5 = useMemo(() => {
-    const vals = approved.map(r => r.rating).filter((n): n is number => n != null);
-    if (!vals.length) return null;
-    const mean10 = vals.reduce((a,b)=>a+b,0)/vals.length;
-    return Math.round(((mean10 > 5 ? mean10/2 : mean10) + Number.EPSILON)*100)/100;
+    const mean10 = averageRating(approved);
+    return mean10 === null ? null : Math.round((mean10 / 2 + Number.EPSILON) * 100) / 100;
   }, [approved]);
 
   const formatWhen = (r: Review) => {
     const isoish = r.submittedAtIso ?? (r.submittedAt ? r.submittedAt.replace(' ', 'T') : '');
     const dt = isoish ? new Date(isoish) : null;
     return dt && !isNaN(dt.getTime())
-      ? dt.toLocaleDateString(undefined, { year: 'numeric', month: 'long' })
+      ? dt.toLocaleDateString('en-GB', { year: 'numeric', month: 'long', timeZone: 'UTC' }) // same on server and client
       : r.submittedAt;
   };
 
+  // Facts line under the title, from the catalog
+  const facts = [
+    listing.roomType,
+    listing.guests !== null && plural(listing.guests, 'guest'),
+    listing.bedrooms !== null && (listing.bedrooms === 0 ? 'Studio' : plural(listing.bedrooms, 'bedroom')),
+    listing.bathrooms !== null && plural(listing.bathrooms, 'bathroom'),
+  ].filter((f): f is string => !!f);
+  const paragraphs = listing.description.split(/\n\s*\n/).filter(Boolean);
+
   // ---- Page layout ----
   return (
     <div className="bg-background text-ink">
@@ -130,23 +84,43 @@ export default function PropertyDetailsClient({ slug }: { slug: string }) {
         {/* Title / Meta / Rating */}
         <header className="mt-2">
           <h1 className="text-ink text-3xl md:text-4xl font-semibold leading-tight">
-            {slug}
+            {listing.name}
           </h1>
+          {(listing.address || listing.city) && (
+            <p className="mt-1 text-subtle">{[listing.address, listing.city].filter(Boolean).join(', ')}</p>
+          )}
 
           <div className="mt-2 flex flex-wrap items-center gap-x-2 text-subtle">
-            <span>Apartment</span>
-            <Bullet />
-            <span>5 guests</span>
-            <Bullet />
-            <span>2 bedrooms</span>
-            <Bullet />
-            <span>2 bathrooms</span>
-            <Bullet />
+            {facts.map(f => (
+              <Fragment key={f}>
+                <span>{f}</span>
+                <Bullet />
+              </Fragment>
+            ))}
             <span className="inline-flex items-center gap-1.5" aria-label="Average rating">
               <span className="text-ink">{avg5 ?? '–'}</span>
               <Star className="h-4 w-4 text-ink" />
               <span>({approved.length} review{approved.length === 1 ? '' : 's'})</span>
             </span>
+            {googlePlace?.rating != null && (
+              <>
+                <Bullet />
+                {/* Google's rating for the whole Place, linked back to Maps as its attribution requires */}
+                <a
+                  href={googlePlace.mapsUri ?? undefined}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="inline-flex items-center gap-1.5 rounded-full border border-line px-2 py-0.5 text-sm hover:text-ink"
+                  aria-label={`Google rating ${googlePlace.rating} from ${googlePlace.userRatingCount} reviews`}
+                >
+                  <span>Google:</span>
+                  <span className="text-ink">{googlePlace.rating.toFixed(1)}</span>
+                  <Star className="h-3.5 w-3.5 text-ink" />
+                  <span>({googlePlace.userRatingCount.toLocaleString('en-GB')})</span>
+                </a>
+                <span className="text-[10px] uppercase tracking-wide">Rating from Google Maps</span>
+              </>
+            )}
           </div>
         </header>
 
@@ -159,52 +133,42 @@ export default function PropertyDetailsClient({ slug }: { slug: string }) {
           </div>
         </div>
 
-        {/* About — matches “Show more” behavior */}
-        <Section title="About this place">
-          <p className="leading-relaxed">
-            Stylish serviced apartment with fast Wi-Fi and self check-in. Moments from transport and local amenities.
-            Ideal for work trips and weekend stays. The location is ideal—close to great cafes, shops, and bars, with
-            easy access to transport. Everything is ready for you to enjoy your stay.
-          </p>
-          <div className="mt-2">
-            <button
-              className="text-brand hover:text-ink text-sm"
-              onClick={() => setAboutOpen(s => !s)}
-            >
-              {aboutOpen ? 'Show less' : 'Show more'}
-            </button>
-            {aboutOpen && (
-              <p className="mt-2 leading-relaxed text-ink/90">
-                Additional details: quiet building, keypad entry, weekly cleaning options on request, and flexible stays.
-              </p>
-            )}
-          </div>
-        </Section>
-
-        {/* Amenities — show first 12 then “Show all” */}
-        <Section title="Amenities">
-          {(() => {
-            const all = [
-              "Free Wi-Fi","Internet","Private living room","Essentials","Towels","Kitchen","Heating","Washer",
-              "Dryer","Air conditioning","Self check-in","Workspace","Smart TV","Microwave","Dishwasher","Coffee maker",
-              "Hair dryer","Iron","Elevator","Garden view","City view","Crib","High chair","Long stays allowed"
-            ];
-            const shown = showAllAmenities ? all : all.slice(0, 12);
-            return (
-              <>
-                <ul className="grid grid-cols-2 gap-2 text-ink sm:grid-cols-3">
-                  {shown.map(a => <li key={a}>{a}</li>)}
-                </ul>
+        {/* About — first paragraph, the rest behind “Show more” */}
+        {paragraphs.length > 0 && (
+          <Section title="About this place">
+            <p className="leading-relaxed">{paragraphs[0]}</p>
+            {paragraphs.length > 1 && (
+              <div className="mt-2">
                 <button
-                  className="mt-3 text-brand hover:text-ink text-sm"
-                  onClick={() => setShowAllAmenities(s => !s)}
+                  className="text-brand hover:text-ink text-sm"
+                  onClick={() => setAboutOpen(s => !s)}
                 >
-                  {showAllAmenities ? `Show fewer amenities` : `Show all ${all.length} amenities`}
+                  {aboutOpen ? 'Show less' : 'Show more'}
                 </button>
-              </>
-            );
-          })()}
-        </Section>
+                {aboutOpen && paragraphs.slice(1).map((p, i) => (
+                  <p key={i} className="mt-2 leading-relaxed text-ink/90">{p}</p>
+                ))}
+              </div>
+            )}
+          </Section>
+        )}
+
+        {/* Amenities — show the first few then “Show all” */}
+        {!!listing.amenities.length && (
+          <Section title="Amenities">
+            <ul className="grid grid-cols-2 gap-2 text-ink sm:grid-cols-3">
+              {(showAllAmenities ? listing.amenities : listing.amenities.slice(0, AMENITIES_SHOWN)).map(a => <li key={a}>{a}</li>)}
+            </ul>
+            {listing.amenities.length > AMENITIES_SHOWN && (
+              <button
+                className="mt-3 text-brand hover:text-ink text-sm"
+                onClick={() => setShowAllAmenities(s => !s)}
+              >
+                {showAllAmenities ? `Show fewer amenities` : `Show all ${listing.amenities.length} amenities`}
+              </button>
+            )}
+          </Section>
+        )}
 
         {/* Available days — placeholder block to mirror layout */}
         <Section title="Available days">
@@ -250,12 +214,19 @@ export default function PropertyDetailsClient({ slug }: { slug: string }) {
                         ))}
                       </div>
                     )}
+
+                    {r.hostReply && (
+                      <div className="mt-3 border-l-2 border-line pl-3">
+                        <p className="text-xs uppercase tracking-wide text-subtle">Response from the host</p>
+                        <p className="mt-1 text-sm leading-relaxed">{r.hostReply.body}</p>
+                      </div>
+                    )}
                   </li>
                 ))}
               </ul>
               <div className="mt-4">
                 <a
-                  href={`/properties/${encodeURIComponent(slug)}/reviews`}
+                  href={`/properties/${listing.slug}/reviews`}
                   className="inline-flex items-center rounded-xl border border-line bg-surface px-3 py-2 text-sm text-brand hover:text-ink"
                 >
                   See all reviews
@@ -271,13 +242,15 @@ export default function PropertyDetailsClient({ slug }: { slug: string }) {
             <div className="rounded-xl border border-line bg-surface p-3">
               <div className="text-xs uppercase text-subtle">House Rules</div>
               <div className="mt-1 text-ink">
-                Check-in: 3 pm<br/>Check-out: 10 am<br/>No pets · No smoking inside
+                {listing.checkIn && <>Check-in: {listing.checkIn}<br/></>}
+                {listing.checkOut && <>Check-out: {listing.checkOut}<br/></>}
+                {listing.houseRules.length ? listing.houseRules.join(' · ') : <span className="text-subtle">Ask the host</span>}
               </div>
             </div>
             <div className="rounded-xl border border-line bg-surface p-3">
               <div className="text-xs uppercase text-subtle">Cancellation Policy</div>
               <div className="mt-1 text-ink">
-                100% refund up to 14 days before arrival
+                {listing.cancellationPolicy ?? <span className="text-subtle">Ask the host</span>}
               </div>
             </div>
             <div className="rounded-xl border border-line bg-surface p-3">
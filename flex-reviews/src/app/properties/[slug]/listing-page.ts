@@ -0,0 +1,56 @@
+// src/app/properties/[slug]/listing-page.ts
+// Shared by the property pages: which listing a URL segment means, its approved reviews, and
+// its metadata. Per-request `cache` lets generateMetadata and the page share the lookups.
+import type { Metadata } from "next";
+import { notFound, permanentRedirect } from "next/navigation";
+import { cache } from "react";
+import { findListingByPath, type Listing } from "@/lib/listings";
+import { loadPublicReviews } from "@/lib/public-reviews";
+import { averageRating } from "@/lib/ratings";
+import { SITE_NAME } from "@/lib/site";
+
+// Search engines cut descriptions around here
+const DESCRIPTION_MAX = 160;
+
+function decodeSegment(segment: string): string {
+  try { return decodeURIComponent(segment); } catch { return segment; }
+}
+
+const findListing = cache((segment: string) => findListingByPath(decodeSegment(segment)));
+
+export const publicReviewsFor = cache((listingName: string) => loadPublicReviews(listingName));
+
+/** The listing for `/properties/<segment><suffix>`; old names and slugs get a 308 to the current slug. */
+export async function listingForPage(segment: string, suffix = ""): Promise<Listing> {
+  const listing = await findListing(segment);
+  if (!listing) notFound();
+  if (decodeSegment(segment) !== listing.slug) permanentRedirect(`/properties/${listing.slug}${suffix}`);
+  return listing;
+}
+
+function describe(listing: Listing, ratingLine: string | null): string {
+  const text = [ratingLine, listing.description.replace(/\s+/g, " ").trim()].filter(Boolean).join(" ");
+  return text.length <= DESCRIPTION_MAX ? text : `${text.slice(0, DESCRIPTION_MAX - 1).replace(/\s+\S*$/, "")}…`;
+}
+
+/** Title, description, canonical link and OpenGraph for a property page (`reviews` = the all-reviews page). */
+export async function propertyMetadata(segment: string, page: "property" | "reviews"): Promise<Metadata> {
+  const listing = await findListing(segment);
+  if (!listing) return {};
+
+  const reviews = await publicReviewsFor(listing.name);
+  const mean10 = averageRating(reviews);
+  const ratingLine = mean10 === null
+    ? null
+    : `Rated ${(Math.round(mean10 * 5) / 10).toFixed(1)}/5 by ${reviews.length} guest${reviews.length === 1 ? "" : "s"}.`;
+
+  const path = `/properties/${listing.slug}${page === "reviews" ? "/reviews" : ""}`;
+  const title = page === "reviews" ? `Guest reviews — ${listing.name}` : listing.name;
+  const description = describe(listing, ratingLine);
+  return {
+    title,
+    description,
+    alternates: { canonical: path },
+    openGraph: { title, description, url: path, siteName: SITE_NAME, type: "website" },
+  };
+}
@@ -1,8 +1,35 @@
+import { loadGooglePlaceSummary } from "@/lib/google";
+import { placeLookupMode } from "@/lib/google-places";
+import { jsonLdScript, listingJsonLd } from "@/lib/structured-data";
+import { listingForPage, propertyMetadata, publicReviewsFor } from "./listing-page";
 import PropertyDetailsClient from "./PropertyDetailsClient";
 
-export default async function Page(
-  { params }: { params: Promise<{ slug: string }> }
-) {
-  const { slug } = await params;
-  return <PropertyDetailsClient slug={decodeURIComponent(slug)} />;
+// Rendered on the server and regenerated in the background at most every 5 minutes (ISR);
+// approval and host reply changes revalidate the public pages right away (revalidatePublicPages)
+export const revalidate = 300;
+
+type Params = { params: Promise<{ slug: string }> };
+
+// No pages at build time: each one is rendered on its first request, then cached
+export function generateStaticParams() {
+  return [];
+}
+
+export async function generateMetadata({ params }: Params) {
+  return propertyMetadata((await params).slug, "property");
+}
+
+export default async function Page({ params }: Params) {
+  const listing = await listingForPage((await params).slug);
+  const [reviews, googlePlace] = await Promise.all([
+    publicReviewsFor(listing.name),
+    // Google's own rating for the badge: live Places data only, never the mock places
+    placeLookupMode() === "live" ? loadGooglePlaceSummary(listing.name) : null,
+  ]);
+  return (
+    <>
+      <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: jsonLdScript(listingJsonLd(listing, reviews)) }} />
+      <PropertyDetailsClient listing={listing} reviews={reviews} googlePlace={googlePlace} />
+    </>
+  );
 }
@@ -1,21 +1,9 @@
 'use client';
 
-import { useEffect, useMemo, useState } from 'react';
-
-type CategoryRating = { category: string; rating: number | null };
-
-type Review = {
-  id: number | string;
-  publicReview: string;
-  listingName: string;
-  guestName: string;
-  submittedAt: string;            // "YYYY-MM-DD HH:mm:ss"
-  submittedAtIso?: string;        // optional ISO
-  reviewCategory: CategoryRating[];
-  approved?: boolean;             // optional server-approved flag
-  channel?: string;               // optional (if present in data)
-  rating?: number | null;         // optional overall rating (often /10 in our mock)
-};
+import { useMemo, useState } from 'react';
+import type { Listing } from '@/lib/listings';
+import { averageRating } from '@/lib/ratings';
+import type { Review } from '@/lib/schema';
 
 // Simple star renderer (supports halves by rounding your mean to nearest .5 if desired)
 function StarRating({ value, outOf = 5, size = 'h-4 w-4' }: { value: number; outOf?: number; size?: string }) {
@@ -52,40 +40,16 @@ function StarRating({ value, outOf = 5, size = 'h-4 w-4' }: { value: number; out
   return <span>{stars}</span>;
 }
 
-export default function PublicReviewsClient({ slug }: { slug: string }) {
-  const [reviews, setReviews] = useState<Review[]>([]);
-  const [approvals, setApprovals] = useState<Record<number, boolean>>({});
-
-  useEffect(() => {
-    const url = new URL('/api/reviews/hostaway', window.location.origin);
-    url.searchParams.set('listing', slug);
-    url.searchParams.set('sort', 'date');  // newest first
-    url.searchParams.set('order', 'desc');
-    // Fetch all rows; we'll union server-approved + local-approved
-    fetch(url)
-      .then((r) => r.json())
-      .then((d) => setReviews(Array.isArray(d?.result) ? d.result : []));
-
-    try {
-      setApprovals(JSON.parse(localStorage.getItem('approvals') || '{}'));
-    } catch { /* noop */ }
-  }, [slug]);
+// Approved reviews come server-rendered from page.tsx; only the "Show more" folds are client state
+export default function PublicReviewsClient({ listing, reviews }: { listing: Listing; reviews: Review[] }) {
+  const approved = reviews;
 
-  // Union of server-approved OR locally-approved
-  const approved = useMemo(() => {
-    return reviews.filter((r) => r.approved === true || approvals[Number(r.id)] === true);
-  }, [reviews, approvals]);
-
-  // Average rating (convert /10 → /5 if needed)
+  // Average rating: overall scores are always 0–10 (derived from categories where needed) → /5
   const avg5 = useMemo(() => {
-    const vals = approved
-      .map((r) => (r.rating == null ? null : r.rating))
-      .filter((v): v is number => v != null);
-    if (!vals.length) return null;
-    const mean10 = vals.reduce((a, b) => a + b, 0) / vals.length;
-    const as5 = mean10 > 5 ? mean10 / 2 : mean10; // if data already /5, this keeps it
+    const mean10 = averageRating(approved);
+    if (mean10 === null) return null;
     // round to nearest 0.5 for nicer stars
-    return Math.round(as5 * 2) / 2;
+    return Math.round(mean10) / 2;
   }, [approved]);
 
   const formatWhen = (r: Review) => {
@@ -93,7 +57,7 @@ export default function PublicReviewsClient({ slug }: { slug: string }) {
     const isoish = r.submittedAtIso ?? (r.submittedAt ? r.submittedAt.replace(' ', 'T') : '');
     const dt = isoish ? new Date(isoish) : null;
     return dt && !isNaN(dt.getTime())
-      ? dt.toLocaleDateString(undefined, { year: 'numeric', month: 'long' })
+      ? dt.toLocaleDateString('en-GB', { year: 'numeric', month: 'long', timeZone: 'UTC' }) // same on server and client
       : r.submittedAt;
   };
 
@@ -101,7 +65,8 @@ export default function PublicReviewsClient({ slug }: { slug: string }) {
     <div className="p-6 max-w-3xl mx-auto">
       {/* Header summary */}
       <div className="mb-6">
-        <h1 className="text-2xl font-semibold text-ink">{slug} — Guest Reviews</h1>
+        <a href={`/properties/${listing.slug}`} className="text-sm text-subtle hover:text-ink">← {listing.name}</a>
+        <h1 className="text-2xl font-semibold text-ink">{listing.name} — Guest Reviews</h1>
         <div className="mt-2 flex items-center gap-2 text-sm text-subtle">
           <span className="text-ink text-base font-medium">{avg5 ?? '–'}</span>
           {typeof avg5 === 'number' && <StarRating value={avg5} />}
@@ -158,6 +123,13 @@ function ReviewItem({ r, formatWhen }: { r: Review; formatWhen: (r: Review) => s
           ))}
         </div>
       )}
+
+      {r.hostReply && (
+        <div className="mt-3 border-l-2 border-line pl-3">
+          <p className="text-xs uppercase tracking-wide text-subtle">Response from the host</p>
+          <p className="mt-1 text-sm leading-relaxed">{r.hostReply.body}</p>
+        </div>
+      )}
     </li>
   );
 }
@@ -1,9 +1,28 @@
+import { jsonLdScript, listingJsonLd } from '@/lib/structured-data';
+import { listingForPage, propertyMetadata, publicReviewsFor } from '../listing-page';
 import PublicReviewsClient from './PublicReviewsClient';
 
+// Server-rendered with ISR, like the property page
+export const revalidate = 300;
+
 // Conform to Next typed-routes contract: `params` is a Promise for dynamic segments
-export default async function Page(
-  { params }: { params: Promise<{ slug: string }> }
-) {
-  const { slug } = await params;
-  return <PublicReviewsClient slug={decodeURIComponent(slug)} />;
+type Params = { params: Promise<{ slug: string }> };
+
+export function generateStaticParams() {
+  return [];
+}
+
+export async function generateMetadata({ params }: Params) {
+  return propertyMetadata((await params).slug, 'reviews');
+}
+
+export default async function Page({ params }: Params) {
+  const listing = await listingForPage((await params).slug, '/reviews');
+  const reviews = await publicReviewsFor(listing.name);
+  return (
+    <>
+      <script type="application/ld+json" dangerouslySetInnerHTML={{ __html: jsonLdScript(listingJsonLd(listing, reviews)) }} />
+      <PublicReviewsClient listing={listing} reviews={reviews} />
+    </>
+  );
 }
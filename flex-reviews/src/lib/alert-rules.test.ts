@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { evaluateRules, validateRule, type AlertRule } from "./alert-rules";
+import { alertStatus } from "./alerts";
+import type { Review } from "./review-query";
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = Date.parse("2025-06-30T12:00:00Z");
+
+let nextId = 1;
+function review(listingName: string, daysAgo: number, rating: number | null, cleanliness?: number): Review {
+  return {
+    id: nextId++,
+    rating,
+    publicReview: "",
+    reviewCategory: cleanliness === undefined ? [] : [{ category: "cleanliness", rating: cleanliness }],
+    submittedAt: "",
+    submittedAtTs: NOW - daysAgo * DAY,
+    guestName: "Guest",
+    listingName,
+  };
+}
+
+function rule(overrides: Partial<AlertRule>): AlertRule {
+  return {
+    id: "r", name: "Rule", enabled: true, kind: "average-below", metric: "cleanliness",
+    threshold: 7, windowDays: 30, minCount: 2, listing: null, perListing: true,
+    ...overrides,
+  };
+}
+
+describe("validateRule", () => {
+  it("fills in defaults and derives an id from the name", () => {
+    const out = validateRule({ name: " Check-in dip ", kind: "average-below", metric: "Check_In", threshold: 8, windowDays: 14 });
+    expect(out).toEqual({
+      rule: {
+        id: "check-in-dip", name: "Check-in dip", enabled: true, kind: "average-below", metric: "check_in",
+        threshold: 8, windowDays: 14, minCount: 1, listing: null, perListing: true,
+      },
+    });
+  });
+
+  it("rejects bad fields", () => {
+    const base = { name: "x", kind: "count-below", metric: "rating", threshold: 6, windowDays: 7 };
+    expect(validateRule(null)).toEqual({ error: "Rule must be an object" });
+    expect(validateRule({ ...base, kind: "spike" })).toHaveProperty("error");
+    expect(validateRule({ ...base, threshold: 11 })).toHaveProperty("error");
+    expect(validateRule({ ...base, windowDays: 1.5 })).toHaveProperty("error");
+    expect(validateRule({ ...base, minCount: 0 })).toHaveProperty("error");
+    expect(validateRule({ ...base, metric: "clean liness" })).toHaveProperty("error");
+  });
+});
+
+describe("evaluateRules", () => {
+  it("fires average-below per listing once enough reviews are rated", () => {
+    const rows = [
+      review("A", 1, 9, 5), review("A", 10, 9, 6),
+      review("B", 2, 9, 5),                      // one review only: below minCount
+      review("C", 3, 9, 9), review("C", 4, 9, 8),
+      review("A", 45, 9, 1),                     // outside the window
+    ];
+    const alerts = evaluateRules([rule({})], rows, NOW);
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ id: "r:A", listing: "A", value: 5.5, reviewIds: [String(rows[0].id), String(rows[1].id)] });
+    expect(alerts[0].message).toBe("A: cleanliness 30-day average 5.5 is below 7 (2 reviews)");
+  });
+
+  it("counts low scores, pooled across listings when perListing is off", () => {
+    const low = rule({ kind: "count-below", metric: "rating", threshold: 6, windowDays: 7, minCount: 3, perListing: false });
+    const rows = [review("A", 1, 4), review("B", 2, 5), review("C", 3, 3), review("C", 3, 8), review("A", 9, 2)];
+    expect(evaluateRules([low], rows, NOW)).toEqual([
+      expect.objectContaining({ id: "r:*", listing: null, value: 3 }),
+    ]);
+    expect(evaluateRules([{ ...low, perListing: true }], rows, NOW)).toEqual([]);
+  });
+
+  it("skips disabled rules and honours the listing scope", () => {
+    const rows = [review("A", 1, 9, 2), review("A", 2, 9, 2), review("B", 1, 9, 2), review("B", 2, 9, 2)];
+    expect(evaluateRules([rule({ enabled: false })], rows, NOW)).toEqual([]);
+    expect(evaluateRules([rule({ listing: "b" })], rows, NOW).map(a => a.listing)).toEqual(["B"]);
+  });
+});
+
+describe("alertStatus", () => {
+  const [alert] = evaluateRules([rule({})], [review("A", 1, 9, 2), review("A", 2, 9, 3)], NOW);
+
+  it("stays acknowledged until a new review joins the alert", () => {
+    const state = { status: "acknowledged" as const, at: "", reviewIds: alert.reviewIds };
+    expect(alertStatus(alert, undefined, NOW)).toBe("active");
+    expect(alertStatus(alert, state, NOW)).toBe("acknowledged");
+    expect(alertStatus({ ...alert, reviewIds: [...alert.reviewIds, "999"] }, state, NOW)).toBe("active");
+  });
+
+  it("is snoozed only until the snooze ends", () => {
+    const state = { status: "snoozed" as const, at: "", until: new Date(NOW + DAY).toISOString() };
+    expect(alertStatus(alert, state, NOW)).toBe("snoozed");
+    expect(alertStatus(alert, state, NOW + 2 * DAY)).toBe("active");
+  });
+});
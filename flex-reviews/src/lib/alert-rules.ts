@@ -0,0 +1,195 @@
+// src/lib/alert-rules.ts
+// Declining-score alert rules and their evaluation over normalized reviews.
+// Pure (no server imports) so the dashboard can share the types.
+import { overallRating } from "./ratings";
+import { toEpochMs, type Review } from "./review-query";
+
+// ---------- Types ----------
+/**
+ * - "average-below": the metric's average over the window is below `threshold`
+ *   (needs at least `minCount` rated reviews, so one bad stay doesn't trip it)
+ * - "count-below": at least `minCount` reviews in the window scored below `threshold`
+ */
+export type AlertRuleKind = "average-below" | "count-below";
+
+export type AlertRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  kind: AlertRuleKind;
+  /** "rating" (overall) or a review category such as "cleanliness" */
+  metric: string;
+  threshold: number;
+  windowDays: number;
+  minCount: number;
+  /** exact listing name; null = every listing */
+  listing: string | null;
+  /** evaluate each listing on its own (true) or the scope as one pool (false) */
+  perListing: boolean;
+};
+
+export type Alert = {
+  /** stable per rule + scope, so acknowledge/snooze survive re-evaluation */
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  kind: AlertRuleKind;
+  metric: string;
+  /** null when the rule pools every listing */
+  listing: string | null;
+  /** the window average ("average-below") or the number of low scores ("count-below") */
+  value: number;
+  threshold: number;
+  windowStart: string;
+  windowEnd: string;
+  /** reviews behind the alert; new ones re-open an acknowledged alert */
+  reviewIds: string[];
+  message: string;
+};
+
+export const DEFAULT_RULES: AlertRule[] = [
+  {
+    id: "cleanliness-30d",
+    name: "Cleanliness 30-day average below 7",
+    enabled: true,
+    kind: "average-below",
+    metric: "cleanliness",
+    threshold: 7,
+    windowDays: 30,
+    minCount: 2,
+    listing: null,
+    perListing: true,
+  },
+  {
+    id: "low-scores-7d",
+    name: "Three reviews under 6 in a week",
+    enabled: true,
+    kind: "count-below",
+    metric: "rating",
+    threshold: 6,
+    windowDays: 7,
+    minCount: 3,
+    listing: null,
+    perListing: true,
+  },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------- Validation ----------
+/** Checks an untrusted rule payload; returns the rule (defaults filled in) or a message. */
+export function validateRule(input: unknown): { rule: AlertRule } | { error: string } {
+  if (!input || typeof input !== "object") return { error: "Rule must be an object" };
+  const r = input as Record<string, unknown>;
+
+  if (typeof r.name !== "string" || !r.name.trim()) return { error: "`name` is required" };
+  if (r.kind !== "average-below" && r.kind !== "count-below") return { error: '`kind` must be "average-below" or "count-below"' };
+  if (typeof r.metric !== "string" || !/^[a-z_][a-z0-9_]*$/i.test(r.metric)) return { error: "`metric` must be \"rating\" or a category name" };
+  if (typeof r.threshold !== "number" || r.threshold < 0 || r.threshold > 10) return { error: "`threshold` must be a number between 0 and 10" };
+  if (typeof r.windowDays !== "number" || !Number.isInteger(r.windowDays) || r.windowDays < 1 || r.windowDays > 366) {
+    return { error: "`windowDays` must be a whole number between 1 and 366" };
+  }
+  const minCount = r.minCount ?? 1;
+  if (typeof minCount !== "number" || !Number.isInteger(minCount) || minCount < 1) return { error: "`minCount` must be a positive whole number" };
+  if (r.listing != null && typeof r.listing !== "string") return { error: "`listing` must be a string or null" };
+  if (r.id !== undefined && typeof r.id !== "string") return { error: "`id` must be a string" };
+
+  return {
+    rule: {
+      id: (r.id as string | undefined) || slugId(r.name),
+      name: r.name.trim(),
+      enabled: r.enabled !== false,
+      kind: r.kind,
+      metric: r.metric.toLowerCase(),
+      threshold: r.threshold,
+      windowDays: r.windowDays,
+      minCount,
+      listing: (r.listing as string | null | undefined) || null,
+      perListing: r.perListing !== false,
+    },
+  };
+}
+
+function slugId(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || `rule-${Date.now()}`;
+}
+
+// ---------- Evaluation ----------
+function metricValue(r: Review, metric: string): number | null {
+  const v = metric === "rating"
+    ? overallRating(r) // derived from categories when the source gave no overall score
+    : r.reviewCategory?.find(c => c.category.toLowerCase() === metric)?.rating;
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+function label(metric: string): string {
+  return metric === "rating" ? "overall rating" : metric.replace(/_/g, "-");
+}
+
+function evaluateGroup(rule: AlertRule, listing: string | null, rows: Review[], start: number, end: number): Alert | null {
+  const scored = rows
+    .map(r => ({ id: String(r.id), v: metricValue(r, rule.metric) }))
+    .filter((x): x is { id: string; v: number } => x.v !== null);
+  const where = listing ?? "All listings";
+
+  let value: number;
+  let hits: { id: string; v: number }[];
+  let message: string;
+  if (rule.kind === "average-below") {
+    if (scored.length < rule.minCount) return null;
+    value = Math.round((scored.reduce((a, x) => a + x.v, 0) / scored.length) * 100) / 100;
+    if (value >= rule.threshold) return null;
+    hits = scored;
+    message = `${where}: ${label(rule.metric)} ${rule.windowDays}-day average ${value} is below ${rule.threshold} (${scored.length} reviews)`;
+  } else {
+    hits = scored.filter(x => x.v < rule.threshold);
+    if (hits.length < rule.minCount) return null;
+    value = hits.length;
+    message = `${where}: ${hits.length} reviews with ${label(rule.metric)} under ${rule.threshold} in ${rule.windowDays} days`;
+  }
+
+  return {
+    id: `${rule.id}:${listing ?? "*"}`,
+    ruleId: rule.id,
+    ruleName: rule.name,
+    kind: rule.kind,
+    metric: rule.metric,
+    listing,
+    value,
+    threshold: rule.threshold,
+    windowStart: new Date(start).toISOString(),
+    windowEnd: new Date(end).toISOString(),
+    reviewIds: hits.map(x => x.id).sort(),
+    message,
+  };
+}
+
+/** Alerts firing at `asOfMs`, each rule looking back over its own rolling window. */
+export function evaluateRules(rules: AlertRule[], rows: Review[], asOfMs: number): Alert[] {
+  const alerts: Alert[] = [];
+  for (const rule of rules) {
+    if (!rule.enabled) continue;
+    const start = asOfMs - rule.windowDays * DAY_MS;
+    const inScope = rows.filter(r => {
+      const t = toEpochMs(r);
+      if (t <= start || t > asOfMs) return false;
+      return !rule.listing || r.listingName.localeCompare(rule.listing, undefined, { sensitivity: "accent" }) === 0;
+    });
+
+    if (!rule.perListing) {
+      const a = evaluateGroup(rule, rule.listing, inScope, start, asOfMs);
+      if (a) alerts.push(a);
+      continue;
+    }
+    const byListing = new Map<string, Review[]>();
+    for (const r of inScope) {
+      if (!byListing.has(r.listingName)) byListing.set(r.listingName, []);
+      byListing.get(r.listingName)!.push(r);
+    }
+    for (const [listing, group] of [...byListing].sort(([a], [b]) => a.localeCompare(b))) {
+      const a = evaluateGroup(rule, listing, group, start, asOfMs);
+      if (a) alerts.push(a);
+    }
+  }
+  return alerts;
+}
@@ -0,0 +1,80 @@
+// src/lib/alerts.ts
+// Alert rules + acknowledge/snooze state (file-backed), and evaluation against the review store.
+import { DEFAULT_RULES, evaluateRules, type Alert, type AlertRule } from "./alert-rules";
+import { loadStoredReviews } from "./hostaway-sync";
+import { readJson, updateJson } from "./json-store";
+import { withDefaults } from "./review-query";
+
+const RULES_FILE = "alert-rules.json";
+const STATE_FILE = "alert-state.json";
+
+export type AlertStatus = "active" | "acknowledged" | "snoozed";
+
+/**
+ * A manager's action on an alert. Acknowledging covers the reviews it was
+ * raised for; a review entering the window afterwards re-opens it.
+ */
+export type AlertState = {
+  status: "acknowledged" | "snoozed";
+  at: string;
+  /** snoozed until (ISO) */
+  until?: string;
+  /** reviews the alert covered when acknowledged */
+  reviewIds?: string[];
+};
+
+export type AlertStateMap = Record<string, AlertState>;
+
+export type AlertWithStatus = Alert & { status: AlertStatus; state?: AlertState };
+
+// ---------- Rules ----------
+export async function getRules(): Promise<AlertRule[]> {
+  return readJson<AlertRule[]>(RULES_FILE, DEFAULT_RULES);
+}
+
+export async function saveRule(rule: AlertRule): Promise<AlertRule[]> {
+  return updateJson<AlertRule[]>(RULES_FILE, DEFAULT_RULES, (list) => {
+    const i = list.findIndex(x => x.id === rule.id);
+    return i === -1 ? [...list, rule] : list.map(x => (x.id === rule.id ? rule : x));
+  });
+}
+
+export async function deleteRule(id: string): Promise<AlertRule[]> {
+  return updateJson<AlertRule[]>(RULES_FILE, DEFAULT_RULES, (list) => list.filter(x => x.id !== id));
+}
+
+// ---------- State ----------
+export async function getAlertStates(): Promise<AlertStateMap> {
+  return readJson<AlertStateMap>(STATE_FILE, {});
+}
+
+export async function setAlertState(id: string, state: AlertState | null): Promise<AlertStateMap> {
+  return updateJson<AlertStateMap>(STATE_FILE, {}, (m) => {
+    const rest = { ...m };
+    if (state) rest[id] = state;
+    else delete rest[id];
+    return rest;
+  });
+}
+
+export function alertStatus(alert: Alert, state: AlertState | undefined, nowMs: number): AlertStatus {
+  if (!state) return "active";
+  if (state.status === "snoozed") {
+    return state.until && Date.parse(state.until) > nowMs ? "snoozed" : "active";
+  }
+  const covered = new Set(state.reviewIds ?? []);
+  return alert.reviewIds.every(id => covered.has(id)) ? "acknowledged" : "active";
+}
+
+// ---------- Evaluation ----------
+/** Evaluates every enabled rule over the review store as of `asOfMs` (default now). */
+export async function loadAlerts(asOfMs = Date.now()): Promise<{ alerts: AlertWithStatus[]; rules: AlertRule[] }> {
+  const [rules, states, { rows }] = await Promise.all([getRules(), getAlertStates(), loadStoredReviews()]);
+  const now = Date.now();
+  const alerts = evaluateRules(rules, withDefaults(rows), asOfMs).map(a => {
+    const state = states[a.id];
+    const status = alertStatus(a, state, now);
+    return { ...a, status, ...(state && status !== "active" ? { state } : {}) };
+  });
+  return { alerts, rules };
+}
@@ -0,0 +1,14 @@
+// src/lib/api-response.ts
+// The error envelope every API route answers with (ErrorResponseSchema in schema.ts):
+// { status: "error", errors: [{ param?, message }] }.
+import { NextResponse } from "next/server";
+import type { QueryError } from "./schema";
+
+export function apiErrors(status: number, errors: QueryError[]) {
+  return NextResponse.json({ status: "error", errors }, { status });
+}
+
+/** A single problem; `param` names the query or body field at fault, when there is one. */
+export function apiError(status: number, message: string, param?: string) {
+  return apiErrors(status, [param ? { param, message } : { message }]);
+}
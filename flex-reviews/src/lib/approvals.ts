@@ -0,0 +1,37 @@
+// src/lib/approvals.ts
+import { readJson, updateJson } from "./json-store";
+
+/** Manager approval decisions, keyed by review ID (stringified). */
+export type ApprovalMap = Record<string, boolean>;
+
+const FILE = "approvals.json";
+
+export async function getApprovals(): Promise<ApprovalMap> {
+  return readJson<ApprovalMap>(FILE, {});
+}
+
+export async function setApprovals(changes: ApprovalMap): Promise<ApprovalMap> {
+  return updateJson<ApprovalMap>(FILE, {}, (m) => ({ ...m, ...changes }));
+}
+
+export async function deleteApproval(id: string): Promise<ApprovalMap> {
+  return updateJson<ApprovalMap>(FILE, {}, (m) => {
+    const rest = { ...m };
+    delete rest[id];
+    return rest;
+  });
+}
+
+/**
+ * The stored decision wins over whatever approval flag the source carried,
+ * so a manager can un-approve a review that arrived pre-approved.
+ */
+export function applyApprovals<T extends { id: number | string; approved?: boolean }>(
+  rows: T[],
+  approvals: ApprovalMap
+): T[] {
+  return rows.map((r) => {
+    const decided = approvals[String(r.id)];
+    return decided === undefined ? r : { ...r, approved: decided };
+  });
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import { categoryName, mapRows, parseCsv, suggestMapping, type ImportOptions } from "./csv-import";
+
+describe("parseCsv", () => {
+  it("handles quotes, escaped quotes, embedded line breaks, CRLF and a BOM", () => {
+    const table = parseCsv('\ufeffListing,Review\r\n"Loft, E1","He said ""wow""\nand left"\r\n\r\nStudio,Fine\r\n');
+    expect(table).toEqual({
+      headers: ["Listing", "Review"],
+      rows: [["Loft, E1", 'He said "wow"\nand left'], ["Studio", "Fine"]],
+      delimiter: ",",
+    });
+  });
+
+  it("detects semicolon and tab delimiters from the header", () => {
+    expect(parseCsv("a;b;c\n1;2,5;3").rows).toEqual([["1", "2,5", "3"]]);
+    expect(parseCsv("a\tb\n1\t2").delimiter).toBe("\t");
+  });
+});
+
+describe("suggestMapping", () => {
+  it("matches aliases once each and picks out category columns", () => {
+    const mapping = suggestMapping(["Review ID", "Property", "Reviewer", "Comments", "Stars", "Date", "Cleanliness", "Category: Noise", "Notes"]);
+    expect(mapping).toEqual({
+      fields: {
+        id: "Review ID", listingName: "Property", guestName: "Reviewer",
+        publicReview: "Comments", rating: "Stars", submittedAt: "Date",
+      },
+      categories: { cleanliness: "Cleanliness", noise: "Category: Noise" },
+    });
+  });
+
+  it("normalizes category names", () => {
+    expect(categoryName("cat - Check In")).toBe("check_in");
+  });
+});
+
+describe("mapRows", () => {
+  const headers = ["Property", "Guest", "Review", "Stars", "Date", "Cleanliness"];
+  const opts = (overrides: Partial<ImportOptions> = {}): ImportOptions => ({
+    channel: "Airbnb",
+    ratingScale: 5,
+    mapping: suggestMapping(headers),
+    importedAt: "2025-06-01T00:00:00.000Z",
+    ...overrides,
+  });
+
+  it("maps a valid row onto the review shape, scaling 5-star scores to 0–10", () => {
+    const { rows, errors } = mapRows({ headers, rows: [["Loft", "Ana", "Great", "4.5", "03/02/2025", "5"]], delimiter: "," }, opts());
+    expect(errors).toEqual([]);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      channel: "Airbnb",
+      type: "guest-to-host",
+      status: "published",
+      rating: 9,
+      reviewCategory: [{ category: "cleanliness", rating: 10 }],
+      submittedAt: "2025-02-03 00:00:00",
+      guestName: "Ana",
+      listingName: "Loft",
+      importedAt: "2025-06-01T00:00:00.000Z",
+    });
+    expect(String(rows[0].id)).toMatch(/^import-airbnb-/);
+  });
+
+  it("derives the same id for the same row, so re-imports update rather than duplicate", () => {
+    const table = { headers, rows: [["Loft", "Ana", "Great", "5", "2025-02-03", ""]], delimiter: "," };
+    expect(mapRows(table, opts()).rows[0].id).toBe(mapRows(table, opts()).rows[0].id);
+  });
+
+  it("reports every problem with its row number and field", () => {
+    const { rows, errors } = mapRows({
+      headers,
+      rows: [
+        ["", "Ana", "Great", "6", "31/02/2025", "x"],
+        ["Loft", "Ben", "", "", "2025-02-03", ""],
+        ["Loft", "Cy", "Ok", "3", "2025-02-03", ""],
+        ["Loft", "Cy", "Ok", "3", "2025-02-03", ""],
+      ],
+      delimiter: ",",
+    }, opts());
+    expect(rows).toHaveLength(1);
+    expect(errors).toEqual([
+      { row: 1, field: "listingName", message: "listing is missing" },
+      { row: 1, field: "submittedAt", message: 'unrecognised date "31/02/2025"' },
+      { row: 1, field: "rating", message: 'rating "6" is not a number between 0 and 5' },
+      { row: 1, field: "cleanliness", message: 'cleanliness "x" is not a number between 0 and 5' },
+      { row: 2, message: "row has no rating, category ratings or text" },
+      { row: 4, field: "id", message: expect.stringMatching(/^duplicate of an earlier row/) },
+    ]);
+  });
+
+  it("keeps 10-point scores as they are and accepts '8/10' and decimal commas", () => {
+    const { rows } = mapRows(
+      { headers, rows: [["Loft", "Ana", "", "8/10", "2025-02-03 10:30", "7,5"]], delimiter: ";" },
+      opts({ ratingScale: 10 })
+    );
+    expect(rows[0]).toMatchObject({ rating: 8, reviewCategory: [{ category: "cleanliness", rating: 7.5 }], submittedAt: "2025-02-03 10:30:00" });
+  });
+});
@@ -0,0 +1,265 @@
+// src/lib/csv-import.ts
+// CSV exports from other channels (Airbnb/Booking dumps, survey tools) → normalized reviews.
+// Columns are matched by alias the way normalizeHostaway falls back across field names;
+// every mapped row is checked against ReviewSchema and rejected rows are reported by number.
+import type { Review } from "./review-query";
+import { ReviewSchema } from "./schema";
+
+// ---------- Types ----------
+export type CsvTable = { headers: string[]; rows: string[][]; delimiter: string };
+
+export const IMPORT_FIELDS = ["id", "listingName", "guestName", "publicReview", "rating", "submittedAt", "type", "status"] as const;
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+/** Which CSV header feeds each review field, and which headers are category ratings. */
+export type ColumnMapping = {
+  fields: Partial<Record<ImportField, string>>;
+  /** category name → header */
+  categories: Record<string, string>;
+};
+
+export type ImportOptions = {
+  channel: string;
+  /** 5 for star ratings (doubled onto 0–10, like Google), 10 otherwise */
+  ratingScale: 5 | 10;
+  mapping: ColumnMapping;
+  importedAt: string;
+};
+
+/** `row` counts data records from 1 (the header isn't one); `field` is the review field at fault. */
+export type RowError = { row: number; field?: string; message: string };
+
+// ---------- CSV ----------
+const DELIMITERS = [",", ";", "\t"];
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  let best = ",";
+  let bestCount = 0;
+  for (const d of DELIMITERS) {
+    const n = firstLine.split(d).length - 1;
+    if (n > bestCount) { best = d; bestCount = n; }
+  }
+  return best;
+}
+
+/** RFC 4180: quoted fields may hold delimiters, `""` and line breaks. Blank lines are dropped. */
+export function parseCsv(text: string): CsvTable {
+  const src = text.replace(/^\ufeff/, "");
+  const delimiter = detectDelimiter(src);
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"') {
+        if (src[i + 1] === '"') { field += '"'; i++; }
+        else quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      quoted = true;
+    } else if (ch === delimiter) {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || record.length) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter(r => r.some(c => c.trim() !== ""));
+  const [headers = [], ...rows] = nonEmpty;
+  return { headers: headers.map(h => h.trim()), rows, delimiter };
+}
+
+// ---------- Column mapping ----------
+function normKey(s: string): string {
+  return s.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+// Normalized header spellings per field, most specific first
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  id: ["id", "reviewid", "uuid", "confirmationcode", "responseid"],
+  listingName: ["listingname", "listing", "propertyname", "property", "accommodation", "unit", "apartment"],
+  guestName: ["guestname", "guest", "reviewername", "reviewer", "authorname", "author", "name"],
+  publicReview: ["publicreview", "review", "comment", "comments", "text", "feedback", "positivecomments"],
+  rating: ["rating", "overallrating", "overall", "score", "reviewscore", "stars"],
+  submittedAt: ["submittedat", "date", "reviewdate", "createdat", "created", "submitted", "timestamp"],
+  type: ["type", "direction"],
+  status: ["status"],
+};
+
+// Hostaway's category names; other headers can still be mapped to a category by hand
+const KNOWN_CATEGORIES = ["cleanliness", "communication", "respect_house_rules", "check_in", "accuracy", "location", "value"];
+const CATEGORY_PREFIX = /^(?:category|cat)[\s:_-]+/i;
+
+export function categoryName(header: string): string {
+  return header.replace(CATEGORY_PREFIX, "").trim().toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_|_$/g, "");
+}
+
+/** Best guess from header names; the dashboard lets the user correct it before importing. */
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const fields: ColumnMapping["fields"] = {};
+  const categories: ColumnMapping["categories"] = {};
+  const used = new Set<string>();
+
+  for (const field of IMPORT_FIELDS) {
+    for (const alias of FIELD_ALIASES[field]) {
+      const h = headers.find(x => !used.has(x) && normKey(x) === alias);
+      if (h) { fields[field] = h; used.add(h); break; }
+    }
+  }
+  for (const h of headers) {
+    if (used.has(h)) continue;
+    const known = KNOWN_CATEGORIES.find(c => normKey(c) === normKey(h.replace(CATEGORY_PREFIX, "")));
+    if (known || CATEGORY_PREFIX.test(h)) {
+      categories[known ?? categoryName(h)] = h;
+      used.add(h);
+    }
+  }
+  return { fields, categories };
+}
+
+// ---------- Rows ----------
+function channelSlug(channel: string): string {
+  return channel.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "csv";
+}
+
+// FNV-1a, so rows without an ID column still get a stable one (re-imports update, not duplicate)
+function hashKey(s: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+}
+
+function parseScore(raw: string, scale: number): number | null | "invalid" {
+  if (raw === "") return null;
+  const n = Number(raw.replace(",", ".").replace(/\s*\/\s*(?:5|10)$/, ""));
+  if (!Number.isFinite(n) || n < 0 || n > scale) return "invalid";
+  return Math.round((n * 10) / scale * 100) / 100;
+}
+
+/** ISO 8601, "YYYY-MM-DD HH:mm:ss" (UTC, as Hostaway sends it) or day-first "DD/MM/YYYY". */
+function parseDate(raw: string): number | null {
+  const dmy = /^(\d{1,2})[/.](\d{1,2})[/.](\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/.exec(raw);
+  if (dmy) {
+    const [, d, m, y, hh = "0", mm = "0", ss = "0"] = dmy;
+    const t = Date.UTC(Number(y), Number(m) - 1, Number(d), Number(hh), Number(mm), Number(ss));
+    return new Date(t).getUTCDate() === Number(d) ? t : null;
+  }
+  const iso = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}(:\d{2})?$/.test(raw) ? raw.replace(" ", "T") + "Z" : raw;
+  const t = Date.parse(iso);
+  return Number.isNaN(t) ? null : t;
+}
+
+/**
+ * Maps each CSV record onto a Review under `opts.channel`. Valid rows are returned
+ * ready to store; every problem with a rejected row is listed in `errors`.
+ */
+export function mapRows(table: CsvTable, opts: ImportOptions): { rows: Review[]; errors: RowError[] } {
+  const index = new Map(table.headers.map((h, i) => [h, i]));
+  const col = (header: string | undefined) => (header !== undefined ? index.get(header) : undefined);
+  const slug = channelSlug(opts.channel);
+  const rows: Review[] = [];
+  const errors: RowError[] = [];
+  const seen = new Set<string>();
+
+  table.rows.forEach((cells, i) => {
+    const row = i + 1;
+    const problems: RowError[] = [];
+    const get = (field: ImportField) => {
+      const c = col(opts.mapping.fields[field]);
+      return c === undefined ? "" : (cells[c] ?? "").trim();
+    };
+
+    const listingName = get("listingName");
+    if (!listingName) problems.push({ row, field: "listingName", message: "listing is missing" });
+
+    const dateRaw = get("submittedAt");
+    const ts = dateRaw ? parseDate(dateRaw) : null;
+    if (ts === null) {
+      problems.push({ row, field: "submittedAt", message: dateRaw ? `unrecognised date "${dateRaw}"` : "date is missing" });
+    }
+
+    const rating = parseScore(get("rating"), opts.ratingScale);
+    if (rating === "invalid") {
+      problems.push({ row, field: "rating", message: `rating "${get("rating")}" is not a number between 0 and ${opts.ratingScale}` });
+    }
+
+    const reviewCategory: Review["reviewCategory"] = [];
+    for (const [category, header] of Object.entries(opts.mapping.categories)) {
+      const c = col(header);
+      const raw = c === undefined ? "" : (cells[c] ?? "").trim();
+      const score = parseScore(raw, opts.ratingScale);
+      if (score === "invalid") {
+        problems.push({ row, field: category, message: `${category} "${raw}" is not a number between 0 and ${opts.ratingScale}` });
+      } else if (score !== null) {
+        reviewCategory.push({ category, rating: score });
+      }
+    }
+
+    const publicReview = get("publicReview");
+    if (rating === null && reviewCategory.length === 0 && !publicReview) {
+      problems.push({ row, message: "row has no rating, category ratings or text" });
+    }
+
+    const guestName = get("guestName") || "Guest";
+    const sourceId = get("id") || hashKey([listingName, guestName, dateRaw, publicReview].join("\u0000"));
+    const id = `import-${slug}-${sourceId}`;
+    if (seen.has(id)) problems.push({ row, field: "id", message: `duplicate of an earlier row (${sourceId})` });
+
+    if (problems.length || ts === null || rating === "invalid") {
+      errors.push(...problems);
+      return;
+    }
+    seen.add(id);
+
+    const iso = new Date(ts).toISOString();
+    const review: Review = {
+      id,
+      type: get("type") || "guest-to-host",
+      status: get("status") || "published",
+      channel: opts.channel,
+      rating,
+      ratingScale: opts.ratingScale,
+      publicReview,
+      reviewCategory,
+      submittedAt: iso.slice(0, 19).replace("T", " "),
+      submittedAtIso: iso,
+      submittedAtTs: ts,
+      guestName,
+      listingName,
+      importedAt: opts.importedAt,
+    };
+
+    const checked = ReviewSchema.safeParse(review);
+    if (!checked.success) {
+      errors.push(...checked.error.issues.map(issue => ({
+        row,
+        field: issue.path.length ? issue.path.join(".") : undefined,
+        message: issue.message,
+      })));
+      return;
+    }
+    rows.push(review);
+  });
+
+  return { rows, errors };
+}
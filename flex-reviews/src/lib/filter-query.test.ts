@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import { compareNumber, parseCondition, parseFilterQuery } from "./filter-query";
+import { filterReviews, parseReviewQuery, withDefaults, type Review } from "./review-query";
+
+describe("parseFilterQuery", () => {
+  it("compiles fielded terms and leaves the rest as free text", () => {
+    const { filter, errors } = parseFilterQuery(
+      'listing:"Shoreditch Heights" channel:Airbnb,booking type:guest-to-host cleanliness<7 rating:>=8 ' +
+      'after:2025-01-01 approved:true sort:rating order:asc "check-in" -noise wifi'
+    );
+    expect(errors).toEqual([]);
+    expect(filter).toMatchObject({
+      listingLike: "Shoreditch Heights",
+      channels: ["airbnb", "booking"],
+      types: ["guest-to-host"],
+      conditions: [
+        { field: "cleanliness", op: "<", value: 7 },
+        { field: "rating", op: ">=", value: 8 },
+      ],
+      fromMs: Date.parse("2025-01-01"),
+      approvedOnly: true,
+      sort: "rating",
+      order: "asc",
+      q: '"check-in" -noise wifi',
+    });
+  });
+
+  it("reads a bare number as equality and category:min pairs", () => {
+    const { filter } = parseFilterQuery("rating:8 category:cleanliness min:9");
+    expect(filter.conditions).toEqual([{ field: "rating", op: "=", value: 8 }]);
+    expect(filter).toMatchObject({ category: "cleanliness", min: 9 });
+  });
+
+  it("locates errors in the input, in order", () => {
+    const input = "foo:bar rating>=11 sort:best";
+    const { errors } = parseFilterQuery(input);
+    expect(errors.map(e => input.slice(e.start, e.end))).toEqual(["foo:bar", ">=11", "best"]);
+    expect(errors[0].message).toMatch(/Unknown field "foo"/);
+    expect(errors[1].message).toBe("Ratings are between 0 and 10");
+  });
+
+  it("flags missing values, bad dates, reserved comparisons and open quotes", () => {
+    const messages = (s: string) => parseFilterQuery(s).errors.map(e => e.message);
+    expect(messages("channel:")).toEqual(['Missing value for "channel"']);
+    expect(messages("after:someday")).toEqual(['Invalid date "someday" (use YYYY-MM-DD)']);
+    expect(messages("min>3")[0]).toMatch(/can't be compared/);
+    expect(parseFilterQuery('listing:"Canary').errors).toEqual([
+      { message: "Unterminated quote", start: 8, end: 15 },
+    ]);
+  });
+});
+
+describe("parseCondition / compareNumber", () => {
+  it("parses where params", () => {
+    expect(parseCondition("Check_In<=7.5")).toEqual({ field: "check_in", op: "<=", value: 7.5 });
+    expect(parseCondition("cleanliness")).toBeNull();
+  });
+
+  it("compares with every operator", () => {
+    expect(compareNumber(7, "<", 8)).toBe(true);
+    expect(compareNumber(8, "<=", 8)).toBe(true);
+    expect(compareNumber(8, ">", 8)).toBe(false);
+    expect(compareNumber(8, ">=", 8)).toBe(true);
+    expect(compareNumber(8, "=", 8)).toBe(true);
+    expect(compareNumber(8, "!=", 8)).toBe(false);
+  });
+});
+
+describe("parseReviewQuery with filter=", () => {
+  const parse = (q: string) => parseReviewQuery(new URLSearchParams(q));
+
+  it("lets plain params win, except sort/order", () => {
+    const query = parse("channel=google&sort=date&order=desc&filter=" +
+      encodeURIComponent("channel:airbnb sort:rating order:asc clean"));
+    expect(query.channels).toEqual(["google"]);
+    expect(query).toMatchObject({ sort: "rating", order: "asc", q: "clean" });
+  });
+
+  it("keeps the plain sort/order when the expression has none", () => {
+    expect(parse("sort=date&order=asc&filter=wifi")).toMatchObject({ sort: "date", order: "asc" });
+  });
+
+  it("reports filter errors with their offsets", () => {
+    expect(parse("filter=" + encodeURIComponent("wifi foo:bar")).errors).toEqual([
+      expect.objectContaining({ param: "filter", start: 5, end: 12 }),
+    ]);
+  });
+});
+
+describe("filterReviews rating conditions", () => {
+  const row = (id: number, rating: number | null, cleanliness: number) => withDefaults([{
+    id, type: "guest-to-host", status: "published", rating, publicReview: "",
+    reviewCategory: [{ category: "cleanliness", rating: cleanliness }],
+    submittedAt: "2025-01-01 10:00:00", guestName: "Guest", listingName: "Flat",
+  } as Review])[0];
+
+  it("falls back to the category mean when a row has no overall rating", () => {
+    const query = parseReviewQuery(new URLSearchParams("filter=" + encodeURIComponent("rating:>=8")));
+    const ids = filterReviews([row(1, 9, 4), row(2, null, 9), row(3, null, 5)], query).map(r => r.id);
+    expect(ids).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,184 @@
+// src/lib/filter-query.ts
+// Parser for the dashboard's structured filter syntax, e.g.
+//
+//   listing:"Shoreditch" cleanliness<7 channel:airbnb,booking topic:noise rating:>=8 after:2025-01-01 "check-in"
+//
+// Fielded terms compile onto the review query; anything else is free text for `q`.
+// Pure (no server imports) so the dashboard can share the types.
+import { toTopicId, type TopicId } from "./review-analysis";
+
+export type ComparisonOp = "<" | "<=" | ">" | ">=" | "=" | "!=";
+
+/** `field` is "rating" (overall) or a review category name. */
+export type Condition = { field: string; op: ComparisonOp; value: number };
+
+export type FilterSyntaxError = {
+  message: string;
+  /** [start, end) offsets into the filter text, for underlining */
+  start: number;
+  end: number;
+};
+
+export type CompiledFilter = {
+  q: string | null;
+  listingLike: string | null;
+  channels: string[] | null;
+  types: string[] | null;
+  topics: TopicId[] | null;
+  category: string | null;
+  min: number | null;
+  conditions: Condition[];
+  fromMs: number | null;
+  toMs: number | null;
+  approvedOnly: boolean;
+  sort: string | null;
+  order: string | null;
+};
+
+const FIELDS = [
+  "listing", "channel", "type", "topic", "category", "min", "rating",
+  "after", "from", "before", "to", "approved", "sort", "order",
+] as const;
+const SORTS = ["date", "rating", "relevance"];
+const ORDERS = ["asc", "desc"];
+
+type Chunk = { text: string; start: number; end: number };
+
+/** Whitespace-separated chunks; whitespace inside double quotes doesn't split. */
+function scan(input: string): { chunks: Chunk[]; errors: FilterSyntaxError[] } {
+  const chunks: Chunk[] = [];
+  const errors: FilterSyntaxError[] = [];
+  let i = 0;
+  while (i < input.length) {
+    while (i < input.length && /\s/.test(input[i])) i++;
+    if (i >= input.length) break;
+    const start = i;
+    let inQuote = false;
+    let quoteAt = -1;
+    while (i < input.length && (inQuote || !/\s/.test(input[i]))) {
+      if (input[i] === '"') { inQuote = !inQuote; quoteAt = i; }
+      i++;
+    }
+    if (inQuote) errors.push({ message: "Unterminated quote", start: quoteAt, end: input.length });
+    chunks.push({ text: input.slice(start, i), start, end: i });
+  }
+  return { chunks, errors };
+}
+
+function unquote(s: string): string {
+  return s.length >= 2 && s.startsWith('"') && s.endsWith('"') ? s.slice(1, -1) : s.replace(/"/g, "");
+}
+
+/** Parses a comparison like ">=8" (a bare number means "="). */
+function parseComparison(s: string): { op: ComparisonOp; value: number } | null {
+  const m = /^(<=|>=|!=|<|>|=)?(-?\d+(?:\.\d+)?)$/.exec(s.trim());
+  if (!m) return null;
+  return { op: (m[1] as ComparisonOp) || "=", value: Number(m[2]) };
+}
+
+/** A single `where` comparison such as "cleanliness<7" or "rating>=8". */
+export function parseCondition(s: string): Condition | null {
+  const m = /^([A-Za-z_]\w*)(<=|>=|!=|<|>|=)(-?\d+(?:\.\d+)?)$/.exec(s.trim());
+  if (!m) return null;
+  return { field: m[1].toLowerCase(), op: m[2] as ComparisonOp, value: Number(m[3]) };
+}
+
+export function compareNumber(actual: number, op: ComparisonOp, value: number): boolean {
+  switch (op) {
+    case "<": return actual < value;
+    case "<=": return actual <= value;
+    case ">": return actual > value;
+    case ">=": return actual >= value;
+    case "=": return actual === value;
+    case "!=": return actual !== value;
+  }
+}
+
+export function emptyFilter(): CompiledFilter {
+  return {
+    q: null, listingLike: null, channels: null, types: null, topics: null, category: null, min: null,
+    conditions: [], fromMs: null, toMs: null, approvedOnly: false, sort: null, order: null,
+  };
+}
+
+export function parseFilterQuery(input: string): { filter: CompiledFilter; errors: FilterSyntaxError[] } {
+  const { chunks, errors } = scan(input);
+  const filter = emptyFilter();
+  const free: string[] = [];
+
+  const err = (message: string, c: Chunk, from = 0) =>
+    errors.push({ message, start: c.start + from, end: c.end });
+  const list = (v: string) => unquote(v).split(",").map(x => x.trim().toLowerCase()).filter(Boolean);
+
+  for (const c of chunks) {
+    // free text (incl. "phrases", -negations and prefix*) goes to the search box as-is
+    if (c.text.startsWith('"') || c.text.startsWith("-")) { free.push(c.text); continue; }
+
+    const cmp = /^([A-Za-z_][\w]*)(<=|>=|!=|<|>|=)(.*)$/.exec(c.text);
+    const kv = cmp ? null : /^([A-Za-z_][\w]*):(.*)$/.exec(c.text);
+    if (!cmp && !kv) { free.push(c.text); continue; }
+
+    const key = (cmp ? cmp[1] : kv![1]).toLowerCase();
+    const valueFrom = (cmp ? cmp[1].length : kv![1].length + 1);
+    const rawValue = cmp ? cmp[2] + cmp[3] : kv![2];
+
+    if (rawValue === "") { err(`Missing value for "${key}"`, c); continue; }
+
+    // `field<7` / `field:>=8` on rating or any non-reserved name is a numeric comparison
+    const isReserved = (FIELDS as readonly string[]).includes(key) && key !== "rating";
+    if (cmp || key === "rating" || (!isReserved && /^[<>=!\d]/.test(rawValue))) {
+      if (isReserved) { err(`"${key}" can't be compared with ${cmp ? cmp[2] : "an operator"}; use ${key}:value`, c); continue; }
+      const parsed = parseComparison(rawValue);
+      if (!parsed) { err(`Expected a number comparison like ${key}>=8`, c, valueFrom); continue; }
+      if (parsed.value < 0 || parsed.value > 10) { err("Ratings are between 0 and 10", c, valueFrom); continue; }
+      filter.conditions.push({ field: key, ...parsed });
+      continue;
+    }
+
+    switch (key) {
+      case "listing": filter.listingLike = unquote(rawValue); break;
+      case "channel": filter.channels = list(rawValue); break;
+      case "type": filter.types = list(rawValue); break;
+      case "topic": {
+        const names = list(rawValue);
+        const unknown = names.filter(n => !toTopicId(n));
+        if (unknown.length) err(`Unknown topic "${unknown[0]}"`, c, valueFrom);
+        else filter.topics = names.map(n => toTopicId(n)!);
+        break;
+      }
+      case "category": filter.category = unquote(rawValue); break;
+      case "min": {
+        const n = Number(rawValue);
+        if (!Number.isFinite(n) || n < 0 || n > 10) err("min must be a number between 0 and 10", c, valueFrom);
+        else filter.min = n;
+        break;
+      }
+      case "after":
+      case "from":
+      case "before":
+      case "to": {
+        const t = Date.parse(unquote(rawValue));
+        if (Number.isNaN(t)) { err(`Invalid date "${unquote(rawValue)}" (use YYYY-MM-DD)`, c, valueFrom); break; }
+        if (key === "after" || key === "from") filter.fromMs = t; else filter.toMs = t;
+        break;
+      }
+      case "approved":
+        if (rawValue.toLowerCase() === "true") filter.approvedOnly = true;
+        else err('Only "approved:true" is supported', c, valueFrom);
+        break;
+      case "sort":
+        if (SORTS.includes(rawValue.toLowerCase())) filter.sort = rawValue.toLowerCase();
+        else err(`sort must be one of ${SORTS.join(", ")}`, c, valueFrom);
+        break;
+      case "order":
+        if (ORDERS.includes(rawValue.toLowerCase())) filter.order = rawValue.toLowerCase();
+        else err(`order must be one of ${ORDERS.join(", ")}`, c, valueFrom);
+        break;
+      default:
+        err(`Unknown field "${key}". Try ${FIELDS.join(", ")}, or <category><op><number>`, c);
+    }
+  }
+
+  filter.q = free.length ? free.join(" ") : null;
+  return { filter, errors: errors.sort((a, b) => a.start - b.start) };
+}
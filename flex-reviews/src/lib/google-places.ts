@@ -0,0 +1,310 @@
+// src/lib/google-places.ts
+// Listing → Google Place mappings (data/store/google-places.json, seeded once from the
+// hand-edited data/google-places.json), their health, and the Places lookups used to
+// manage them: Text Search to find a place, Place Details to verify an ID. Without an
+// API key (or with `mock`) both answer from data/google-mock-places.json.
+// Also caches each Place's summary (Google's rating, review count, Maps link) in
+// data/store/google-place-summaries.json, keyed by Place ID.
+import fs from "node:fs/promises";
+import path from "node:path";
+import { loadStoredReviews } from "./hostaway-sync";
+import { readJson, updateJson } from "./json-store";
+
+const FILE = "google-places.json";
+const SUMMARY_FILE = "google-place-summaries.json";
+// Google's overall rating moves slowly; every review fetch refreshes it anyway
+const SUMMARY_TTL_MS = 24 * 60 * 60 * 1000;
+const PLACES_API = "https://places.googleapis.com/v1";
+const MAX_CANDIDATES = 5;
+
+// ---------- Types ----------
+export type PlaceMapping = {
+  placeId: string;
+  /** Google's name/address for the place, from the last search pick or verification */
+  placeName?: string;
+  address?: string;
+  /** unset for mappings carried over from data/google-places.json */
+  updatedAt?: string;
+  verifiedAt?: string;
+  /** why the ID was rejected by the last verification */
+  invalid?: string;
+  lastFetchAt?: string;
+  lastFetchError?: string;
+};
+
+/** listing name → mapping */
+export type PlaceMap = Record<string, PlaceMapping>;
+
+export type PlaceStatus = "mapped" | "unmapped" | "invalid" | "error";
+
+export type ListingPlaceHealth = {
+  listing: string;
+  status: PlaceStatus;
+  detail?: string;
+  mapping: PlaceMapping | null;
+};
+
+export type PlaceCandidate = {
+  placeId: string;
+  name: string;
+  address?: string;
+  rating?: number;
+  userRatingCount?: number;
+  mapsUri?: string;
+};
+
+export type PlaceLookupMode = "live" | "mock";
+
+/** What Google shows for the Place as a whole; `rating` is its own 1–5 average over all reviews. */
+export type PlaceSummary = {
+  placeId: string;
+  name: string;
+  rating: number | null;
+  userRatingCount: number;
+  mapsUri?: string;
+  fetchedAt: string;
+};
+
+type PlacesApiPlace = {
+  id?: string;
+  displayName?: { text?: string } | string;
+  formattedAddress?: string;
+  rating?: number;
+  userRatingCount?: number;
+  googleMapsUri?: string;
+};
+
+// ---------- Helpers ----------
+export function placeLookupMode(mock = false): PlaceLookupMode {
+  return mock || !process.env.GOOGLE_MAPS_API_KEY ? "mock" : "live";
+}
+
+/** Format check only: Place IDs are opaque URL-safe tokens; the `ChIJxxxx…` kind are placeholders. */
+export function placeIdProblem(placeId: string): string | null {
+  if (!/^[A-Za-z0-9_-]{10,}$/.test(placeId)) return "not a Place ID (letters, digits, - and _ only)";
+  if (/x{6,}/i.test(placeId)) return "looks like a placeholder";
+  return null;
+}
+
+function toCandidate(p: PlacesApiPlace): PlaceCandidate {
+  return {
+    placeId: p.id ?? "",
+    name: (typeof p.displayName === "string" ? p.displayName : p.displayName?.text) ?? "",
+    address: p.formattedAddress,
+    rating: p.rating,
+    userRatingCount: p.userRatingCount,
+    mapsUri: p.googleMapsUri,
+  };
+}
+
+function words(s: string): string[] {
+  return s.normalize("NFD").replace(/\p{M}+/gu, "").toLowerCase().split(/[^a-z0-9]+/).filter(w => w.length > 1);
+}
+
+async function readMockPlaces(): Promise<PlacesApiPlace[]> {
+  const raw = await fs.readFile(path.join(process.cwd(), "data", "google-mock-places.json"), "utf8");
+  return JSON.parse(raw) as PlacesApiPlace[];
+}
+
+async function readSeed(): Promise<PlaceMap> {
+  try {
+    const raw = await fs.readFile(path.join(process.cwd(), "data", "google-places.json"), "utf8");
+    const legacy = JSON.parse(raw) as Record<string, string>;
+    return Object.fromEntries(
+      Object.entries(legacy).filter(([, id]) => typeof id === "string" && id).map(([listing, placeId]) => [listing, { placeId }])
+    );
+  } catch {
+    return {}; // seed file optional
+  }
+}
+
+// ---------- Mappings ----------
+export async function getPlaceMappings(): Promise<PlaceMap> {
+  return (await readJson<PlaceMap | null>(FILE, null)) ?? readSeed();
+}
+
+/** Listing name → Place ID ('' when unmapped). */
+export async function resolvePlaceId(listing: string): Promise<string> {
+  if (!listing) return "";
+  return (await getPlaceMappings())[listing]?.placeId || "";
+}
+
+// The first write starts from the seed so hand-edited mappings carry over
+async function updateMappings(fn: (m: PlaceMap) => PlaceMap): Promise<PlaceMap> {
+  const seed = (await readJson<PlaceMap | null>(FILE, null)) === null ? await readSeed() : {};
+  return updateJson<PlaceMap>(FILE, seed, fn);
+}
+
+/** Adds or replaces a listing's mapping; a changed ID starts over unverified. */
+export function savePlaceMapping(listing: string, input: { placeId: string; placeName?: string; address?: string }): Promise<PlaceMap> {
+  return updateMappings((m) => {
+    const prev = m[listing];
+    const kept = prev && prev.placeId === input.placeId ? prev : undefined;
+    return {
+      ...m,
+      [listing]: {
+        ...kept,
+        placeId: input.placeId,
+        placeName: input.placeName ?? kept?.placeName,
+        address: input.address ?? kept?.address,
+        updatedAt: new Date().toISOString(),
+      },
+    };
+  });
+}
+
+export function deletePlaceMapping(listing: string): Promise<PlaceMap> {
+  return updateMappings((m) => {
+    const rest = { ...m };
+    delete rest[listing];
+    return rest;
+  });
+}
+
+/** Called after each live Place Details fetch for a mapped listing. */
+export async function recordPlaceFetch(listing: string, error: string | null): Promise<void> {
+  await updateMappings((m) => {
+    const prev = m[listing];
+    if (!prev) return m;
+    const next: PlaceMapping = { ...prev, lastFetchAt: new Date().toISOString() };
+    if (error) next.lastFetchError = error;
+    else delete next.lastFetchError;
+    return { ...m, [listing]: next };
+  });
+}
+
+// ---------- Health ----------
+export function placeHealth(listing: string, mapping: PlaceMapping | undefined): ListingPlaceHealth {
+  if (!mapping?.placeId) return { listing, status: "unmapped", mapping: null };
+  const problem = placeIdProblem(mapping.placeId) ?? mapping.invalid;
+  if (problem) return { listing, status: "invalid", detail: problem, mapping };
+  if (mapping.lastFetchError) return { listing, status: "error", detail: `last fetch failed: ${mapping.lastFetchError}`, mapping };
+  return { listing, status: "mapped", detail: mapping.verifiedAt ? undefined : "not verified yet", mapping };
+}
+
+/** Every Hostaway listing plus any mapped one, with its mapping status. */
+export async function listPlaceHealth(): Promise<ListingPlaceHealth[]> {
+  const [mappings, { rows }] = await Promise.all([getPlaceMappings(), loadStoredReviews()]);
+  const listings = new Set([...rows.map(r => r.listingName).filter(Boolean), ...Object.keys(mappings)]);
+  return Array.from(listings)
+    .sort((a, b) => a.localeCompare(b))
+    .map(listing => placeHealth(listing, mappings[listing]));
+}
+
+// ---------- Places lookups ----------
+/** Places Text Search (New), or a word match over the mock places. */
+export async function findPlaces(query: string, mode: PlaceLookupMode): Promise<PlaceCandidate[]> {
+  if (mode === "mock") {
+    const wanted = words(query);
+    return (await readMockPlaces())
+      .map(p => {
+        const have = new Set(words(`${toCandidate(p).name} ${p.formattedAddress ?? ""}`));
+        return { p, score: wanted.filter(w => have.has(w)).length };
+      })
+      .filter(x => x.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_CANDIDATES)
+      .map(x => toCandidate(x.p));
+  }
+
+  const res = await fetch(`${PLACES_API}/places:searchText`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Goog-Api-Key": process.env.GOOGLE_MAPS_API_KEY ?? "",
+      "X-Goog-FieldMask": "places.id,places.displayName,places.formattedAddress,places.rating,places.userRatingCount,places.googleMapsUri",
+    },
+    body: JSON.stringify({ textQuery: query, languageCode: "en" }),
+    cache: "no-store",
+  });
+  if (!res.ok) throw new Error(`places:searchText ${res.status}`);
+  const data = (await res.json()) as { places?: PlacesApiPlace[] };
+  return (data.places ?? []).slice(0, MAX_CANDIDATES).map(toCandidate);
+}
+
+export type VerifyResult = { ok: true; place: PlaceCandidate } | { ok: false; reason: string };
+
+/** Place Details for the ID: `ok: false` when Google (or the mock) doesn't know it; throws on other failures. */
+export async function verifyPlaceId(placeId: string, mode: PlaceLookupMode): Promise<VerifyResult> {
+  const problem = placeIdProblem(placeId);
+  if (problem) return { ok: false, reason: problem };
+
+  if (mode === "mock") {
+    const hit = (await readMockPlaces()).find(p => p.id === placeId);
+    return hit ? { ok: true, place: toCandidate(hit) } : { ok: false, reason: "unknown to the mock places" };
+  }
+
+  const res = await fetch(`${PLACES_API}/places/${encodeURIComponent(placeId)}?languageCode=en`, {
+    headers: {
+      "X-Goog-Api-Key": process.env.GOOGLE_MAPS_API_KEY ?? "",
+      "X-Goog-FieldMask": "id,displayName,formattedAddress,rating,userRatingCount,googleMapsUri",
+    },
+    cache: "no-store",
+  });
+  if (res.status === 400 || res.status === 404) return { ok: false, reason: `Google rejected the ID (${res.status})` };
+  if (!res.ok) throw new Error(`places:${res.status}`);
+  return { ok: true, place: toCandidate((await res.json()) as PlacesApiPlace) };
+}
+
+/** Verifies a listing's mapped ID and stores the outcome (name/address on success). */
+export async function verifyPlaceMapping(listing: string, mode: PlaceLookupMode): Promise<ListingPlaceHealth> {
+  const mapping = (await getPlaceMappings())[listing];
+  if (!mapping) return placeHealth(listing, undefined);
+
+  const result = await verifyPlaceId(mapping.placeId, mode);
+  if (result.ok) await cachePlaceSummary({ ...result.place, placeId: mapping.placeId });
+  const at = new Date().toISOString();
+  const updated = await updateMappings((m) => {
+    const prev = m[listing];
+    if (!prev || prev.placeId !== mapping.placeId) return m; // changed meanwhile
+    const next: PlaceMapping = { ...prev, verifiedAt: at };
+    if (result.ok) {
+      delete next.invalid;
+      next.placeName = result.place.name || prev.placeName;
+      next.address = result.place.address ?? prev.address;
+    } else {
+      next.invalid = result.reason;
+    }
+    return { ...m, [listing]: next };
+  });
+  return placeHealth(listing, updated[listing]);
+}
+
+// ---------- Place summaries ----------
+/** Stores what Google reported for a Place; called wherever Place Details comes back. */
+export async function cachePlaceSummary(place: Omit<PlaceCandidate, "address">): Promise<PlaceSummary> {
+  const summary: PlaceSummary = {
+    placeId: place.placeId,
+    name: place.name,
+    rating: typeof place.rating === "number" ? place.rating : null,
+    userRatingCount: place.userRatingCount ?? 0,
+    mapsUri: place.mapsUri,
+    fetchedAt: new Date().toISOString(),
+  };
+  await updateJson<Record<string, PlaceSummary>>(SUMMARY_FILE, {}, m => ({ ...m, [place.placeId]: summary }));
+  return summary;
+}
+
+/**
+ * The Place's summary: from the cache while it's under a day old, else a Place Details
+ * lookup. A failed lookup serves the stale entry (or null), so the badge just ages.
+ */
+export async function getPlaceSummary(placeId: string, mode: PlaceLookupMode): Promise<PlaceSummary | null> {
+  const cached = (await readJson<Record<string, PlaceSummary>>(SUMMARY_FILE, {}))[placeId] ?? null;
+  if (cached && Date.now() - Date.parse(cached.fetchedAt) < SUMMARY_TTL_MS) return cached;
+  try {
+    const result = await verifyPlaceId(placeId, mode);
+    return result.ok ? await cachePlaceSummary({ ...result.place, placeId }) : null;
+  } catch (e) {
+    console.warn(`Place summary for ${placeId} failed:`, e);
+    return cached;
+  }
+}
+
+/** Mock mode's Place for a listing: its mapping when that is a mock place, else the best mock search hit. */
+export async function mockPlaceIdFor(listing: string): Promise<string | null> {
+  const places = await readMockPlaces();
+  const mapped = await resolvePlaceId(listing);
+  if (mapped && places.some(p => p.id === mapped)) return mapped;
+  return (await findPlaces(listing, "mock"))[0]?.placeId ?? null;
+}
@@ -0,0 +1,68 @@
+// src/lib/google-snapshots.ts
+// Accumulated Google reviews. Place Details only ever returns five reviews, so every fetch
+// is merged into a local snapshot (data/store/google-reviews.jsonl, or google-reviews.mock.jsonl
+// for mock fetches) keyed by the review's stable `name`, and history builds up over time.
+import { readJsonLines, serialize, writeJsonLines } from "./json-store";
+import { toEpochMs } from "./review-query";
+import type { UpsertResult } from "./review-store";
+import type { Review } from "./schema";
+
+const FILES = { live: "google-reviews.jsonl", mock: "google-reviews.mock.jsonl" };
+
+function fileFor(mock: boolean): string {
+  return mock ? FILES.mock : FILES.live;
+}
+
+// Google's `name` ("places/…/reviews/…") when we have it, else our derived ID
+function snapshotKey(r: Review): string {
+  return r.externalId ?? String(r.id);
+}
+
+// A re-fetch only counts as a change when the review itself differs, not its seen stamps
+function sameContent(a: Review, b: Review): boolean {
+  const strip = (r: Review) => ({ ...r, firstSeenAt: null, lastSeenAt: null });
+  return JSON.stringify(strip(a)) === JSON.stringify(strip(b));
+}
+
+function newestFirst(rows: Review[]): Review[] {
+  return rows.sort((a, b) => toEpochMs(b) - toEpochMs(a));
+}
+
+/** Everything accumulated for `listing` (null = every listing), newest first. */
+export async function getGoogleSnapshot(listing: string | null, mock = false): Promise<Review[]> {
+  const rows = await readJsonLines<Review>(fileFor(mock));
+  return newestFirst(listing === null ? rows : rows.filter(r => r.listingName === listing));
+}
+
+/**
+ * Merges one fetch for `listing` into the snapshot: unseen reviews are added with `firstSeenAt`,
+ * every fetched review gets `lastSeenAt = seenAt` (and its latest text/rating), and reviews
+ * missing from this fetch are kept. Returns the listing's accumulated set, newest first.
+ */
+export function mergeGoogleSnapshot(
+  listing: string,
+  fetched: Review[],
+  opts: { mock: boolean; seenAt: string }
+): Promise<{ rows: Review[]; counts: UpsertResult }> {
+  const file = fileFor(opts.mock);
+  return serialize(file, async () => {
+    const all = await readJsonLines<Review>(file);
+    const byKey = new Map(all.map(r => [snapshotKey(r), r]));
+    const counts: UpsertResult = { inserted: 0, updated: 0, unchanged: 0 };
+
+    for (const f of fetched) {
+      const key = snapshotKey(f);
+      const existing = byKey.get(key);
+      // Rows are filed under our listing name, not the Place's display name
+      const next: Review = { ...f, listingName: listing, firstSeenAt: existing?.firstSeenAt ?? opts.seenAt, lastSeenAt: opts.seenAt };
+      if (!existing) counts.inserted++;
+      else if (sameContent(existing, next)) counts.unchanged++;
+      else counts.updated++;
+      byKey.set(key, next);
+    }
+
+    const merged = Array.from(byKey.values());
+    if (fetched.length) await writeJsonLines(file, merged);
+    return { rows: newestFirst(merged.filter(r => r.listingName === listing)), counts };
+  });
+}
@@ -0,0 +1,262 @@
+// src/lib/google.ts
+// Google Places (New) review client + the bundled mock, shared by the review routes,
+// and the Google ReviewSource adapter (one Place per listing).
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import {
+  cachePlaceSummary,
+  getPlaceMappings,
+  getPlaceSummary,
+  mockPlaceIdFor,
+  placeHealth,
+  recordPlaceFetch,
+  resolvePlaceId,
+  type PlaceSummary,
+} from './google-places';
+import { getGoogleSnapshot, mergeGoogleSnapshot } from './google-snapshots';
+import { toNormalizedScale } from './ratings';
+import type { UpsertResult } from './review-store';
+import type { Review } from './schema';
+import type { ReviewSource } from './source-adapter';
+
+/** ---- Types for the (New) Google Places API fields we actually use ---- */
+interface PlaceAuthorAttribution {
+  displayName?: string;
+  uri?: string;
+  photoUri?: string;
+}
+interface PlaceReview {
+  name?: string; // e.g. "places/PLACE_ID/reviews/REVIEW_ID"
+  text?: { text?: string };
+  rating?: number; // /5
+  publishTime?: string; // ISO
+  relativePublishTimeDescription?: string;
+  googleMapsUri?: string;
+  authorAttribution?: PlaceAuthorAttribution;
+}
+interface PlaceDetailsResponse {
+  displayName?: { text?: string };
+  googleMapsUri?: string;
+  rating?: number;
+  userRatingCount?: number;
+  reviews?: PlaceReview[];
+}
+
+/** ---- App's normalized shape ---- */
+/** A normalized review (see schema.ts) that came from Google; ratings are already on 0–10. */
+export type GoogleReview = Review & { channel: 'Google' };
+
+// Google stars are 1–5
+const GOOGLE_SCALE = 5;
+// Place Details never returns more than this many reviews
+const GOOGLE_MAX_REVIEWS = 5;
+// Mock mode slides a window of GOOGLE_MAX_REVIEWS over each listing's pool, this many
+// reviews per step and one step an hour, so successive fetches overlap like the real API
+const MOCK_WINDOW_STEP = 2;
+const MOCK_ROTATE_MS = 60 * 60 * 1000;
+
+function hashToInt(s: string) {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i++) h = (h ^ s.charCodeAt(i)) * 16777619;
+  return (h >>> 0) % 2147483647;
+}
+
+/** What the adapter fetches: a Place Details review, or an already-normalized mock row. */
+export type GoogleRaw =
+  | { kind: 'place'; review: PlaceReview; placeName: string; placeUri?: string }
+  | { kind: 'mock'; review: GoogleReview };
+
+/**
+ * The mock "fetch" for a listing: window `step` (default: the current hour) of its pool in
+ * data/google-mock-reviews.json, at most GOOGLE_MAX_REVIEWS like the real API.
+ */
+export async function loadMockGoogleReviews(listing: string, step = Math.floor(Date.now() / MOCK_ROTATE_MS)): Promise<GoogleReview[]> {
+  const raw = await fs.readFile(path.join(process.cwd(), 'data', 'google-mock-reviews.json'), 'utf8');
+  const pool = (JSON.parse(raw) as Record<string, (GoogleReview & { name?: string })[]>)[listing] ?? [];
+  const start = pool.length > GOOGLE_MAX_REVIEWS ? (step * MOCK_WINDOW_STEP) % pool.length : 0;
+  const window = Array.from({ length: Math.min(GOOGLE_MAX_REVIEWS, pool.length) }, (_, i) => pool[(start + i) % pool.length]);
+  // mock rows are stored already on /10, with Google's review `name`
+  return window.map(({ name, ...r }) => ({ ratingScale: GOOGLE_SCALE, externalId: name, ...r }));
+}
+
+/** Place Details (New Places API), minimal field mask; refreshes the Place's cached summary. Throws on upstream errors. */
+async function fetchPlaceDetails(placeId: string, apiKey: string): Promise<PlaceDetailsResponse> {
+  // Request a minimal field mask
+  const fields = [
+    'displayName',
+    'googleMapsUri',
+    'rating',
+    'userRatingCount',
+    'reviews.name',
+    'reviews.text',
+    'reviews.rating',
+    'reviews.publishTime',
+    'reviews.googleMapsUri',
+    'reviews.authorAttribution.displayName',
+  ].join(',');
+
+  const endpoint =
+    `https://places.googleapis.com/v1/places/${encodeURIComponent(placeId)}?` +
+    `fields=${encodeURIComponent(fields)}&languageCode=en`;
+
+  const res = await fetch(endpoint, {
+    headers: { 'X-Goog-Api-Key': apiKey },
+    cache: 'no-store',
+  });
+
+  if (!res.ok) {
+    throw new Error(`places:${res.status}`);
+  }
+
+  const data = (await res.json()) as PlaceDetailsResponse;
+  await cachePlaceSummary({
+    placeId,
+    name: data.displayName?.text ?? '',
+    rating: data.rating,
+    userRatingCount: data.userRatingCount,
+    mapsUri: data.googleMapsUri,
+  });
+  return data;
+}
+
+function placeItems(data: PlaceDetailsResponse, listing: string): GoogleRaw[] {
+  const placeName = data.displayName?.text || listing;
+  return (data.reviews ?? []).slice(0, GOOGLE_MAX_REVIEWS).map(review => ({ kind: 'place', review, placeName, placeUri: data.googleMapsUri }));
+}
+
+function normalizePlaceReview(rev: PlaceReview, placeName: string, placeUri?: string): GoogleReview {
+  const stableKey =
+    rev.name ||
+    `${rev.publishTime ?? ''}|${rev.authorAttribution?.displayName ?? ''}|${rev.text?.text ?? ''}`;
+  return {
+    id: 900000 + (hashToInt(stableKey) % 100000), // numeric, stable-ish
+    externalId: stableKey,
+    type: 'guest-to-host',
+    status: 'published',
+    rating: typeof rev.rating === 'number' ? toNormalizedScale(rev.rating, GOOGLE_SCALE) : null, // /5 → /10, half-stars kept
+    ratingScale: GOOGLE_SCALE,
+    publicReview: rev.text?.text ?? '',
+    reviewCategory: [],
+    submittedAt: rev.publishTime ?? '',
+    guestName: rev.authorAttribution?.displayName || 'Google user',
+    listingName: placeName,
+    channel: 'Google',
+    sourceUrl: rev.googleMapsUri || placeUri,
+  };
+}
+
+function normalizeGoogle(raw: GoogleRaw): GoogleReview {
+  return raw.kind === 'mock' ? raw.review : normalizePlaceReview(raw.review, raw.placeName, raw.placeUri);
+}
+
+/** Place Details (New Places API) → normalized reviews. Throws on upstream errors. */
+export async function fetchPlaceReviews(placeId: string, listing: string, apiKey: string): Promise<GoogleReview[]> {
+  return placeItems(await fetchPlaceDetails(placeId, apiKey), listing).map(normalizeGoogle);
+}
+
+export type GoogleLoadOptions = {
+  mock?: boolean;
+  /** query this Place instead of the listing's mapped one */
+  placeId?: string;
+  /** mock mode: which rotation step to serve (see loadMockGoogleReviews) */
+  window?: number;
+};
+
+/**
+ * Reviews for one listing: mock file when `mock` is set, otherwise Place Details.
+ * Returns [] when there is no API key or Place ID; upstream failures throw.
+ */
+export async function loadGoogleReviews(listing: string, opts: GoogleLoadOptions = {}): Promise<GoogleReview[]> {
+  if (opts.mock) return loadMockGoogleReviews(listing, opts.window);
+
+  const placeId = opts.placeId || (await resolvePlaceId(listing));
+  const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+  if (!apiKey || !placeId) return [];
+
+  return fetchPlaceReviews(placeId, listing, apiKey);
+}
+
+/**
+ * Google's own rating and review count for the listing's Place (a mock place in mock mode),
+ * cached per Place (see getPlaceSummary). Null when there is no Place to ask about.
+ */
+export async function loadGooglePlaceSummary(listing: string, opts: GoogleLoadOptions = {}): Promise<PlaceSummary | null> {
+  if (opts.mock) {
+    const placeId = opts.placeId || (await mockPlaceIdFor(listing));
+    return placeId ? getPlaceSummary(placeId, 'mock') : null;
+  }
+  const placeId = opts.placeId || (await resolvePlaceId(listing));
+  if (!process.env.GOOGLE_MAPS_API_KEY || !placeId) return null;
+  return getPlaceSummary(placeId, 'live');
+}
+
+// ---------- Accumulation ----------
+export type GoogleAccumulation = {
+  /** everything seen so far for the listing, newest first */
+  rows: Review[];
+  /** reviews in this fetch, and how they merged (null when the fetch failed) */
+  fetched: number;
+  merged: UpsertResult | null;
+  errors: string[];
+};
+
+/**
+ * One fetch for `listing`, merged into the snapshot store (google-snapshots.ts).
+ * A failed fetch still serves what was accumulated before, with the error.
+ */
+export async function accumulateGoogleReviews(listing: string, opts: GoogleLoadOptions = {}): Promise<GoogleAccumulation> {
+  const mock = !!opts.mock;
+  // Live fetches through a listing's mapping leave their outcome on it (see /dashboard/google)
+  const viaMapping = !mock && !opts.placeId && !!process.env.GOOGLE_MAPS_API_KEY && !!(await resolvePlaceId(listing));
+  let fetched: GoogleReview[];
+  try {
+    fetched = await loadGoogleReviews(listing, opts);
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    if (viaMapping) await recordPlaceFetch(listing, message);
+    return { rows: await getGoogleSnapshot(listing, mock), fetched: 0, merged: null, errors: [message] };
+  }
+  if (viaMapping) await recordPlaceFetch(listing, null);
+  const { rows, counts } = await mergeGoogleSnapshot(listing, fetched, { mock, seenAt: new Date().toISOString() });
+  return { rows, fetched: fetched.length, merged: counts, errors: [] };
+}
+
+// ---------- ReviewSource adapter ----------
+export const googleSource: ReviewSource<GoogleRaw> = {
+  name: 'google',
+  channel: 'Google',
+  capabilities: { perListing: true, mock: true, replies: false, stored: false },
+  // Place Details is billed per call; reviews there change slowly
+  cacheTtlMs: 5 * 60 * 1000,
+  async fetch({ listing, mock }) {
+    if (!listing) return { items: [], mode: mock ? 'mock' : 'live', errors: [] };
+    if (mock) {
+      const rows = await loadMockGoogleReviews(listing);
+      return { items: rows.map(review => ({ kind: 'mock', review })), mode: 'mock', errors: [] };
+    }
+    const placeId = await resolvePlaceId(listing);
+    const apiKey = process.env.GOOGLE_MAPS_API_KEY;
+    if (!apiKey || !placeId) return { items: [], mode: 'unconfigured', errors: [] };
+    return { items: placeItems(await fetchPlaceDetails(placeId, apiKey), listing), mode: 'live', errors: [] };
+  },
+  normalize: (raw) => normalizeGoogle(raw),
+  // Reads serve the accumulated snapshot, topped up by a fresh fetch
+  async read({ listing, mock }) {
+    if (!listing) return { items: [], mode: mock ? 'mock' : 'live', errors: [] };
+    const acc = await accumulateGoogleReviews(listing, { mock });
+    return {
+      items: acc.rows,
+      mode: acc.merged ? `${mock ? 'mock' : 'live'}-snapshot` : 'snapshot-fallback',
+      errors: acc.errors,
+      degraded: !acc.merged,
+    };
+  },
+  async health() {
+    if (!process.env.GOOGLE_MAPS_API_KEY) return { status: 'unconfigured', detail: 'GOOGLE_MAPS_API_KEY is not set; use mock=1' };
+    const health = Object.entries(await getPlaceMappings()).map(([listing, m]) => placeHealth(listing, m));
+    const good = health.filter(h => h.status === 'mapped').length;
+    const bad = health.length - good;
+    if (!good) return { status: 'degraded', detail: bad ? `no working Place mapping (${bad} invalid or failing)` : 'no listing is mapped to a Place' };
+    return { status: bad ? 'degraded' : 'ok', detail: `${good} listing(s) mapped to a Place${bad ? `, ${bad} invalid or failing` : ''}` };
+  },
+};
@@ -0,0 +1,137 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import type { Review } from "./review-query";
+import type { SourceFetch } from "./source-adapter";
+
+// The upstream is scripted per test; everything else (store, state file) is real
+const upstream = vi.hoisted(() => ({ loads: [] as SourceFetch<Review>[], calls: [] as { since?: number }[] }));
+vi.mock("./hostaway", () => ({
+  USE_LIVE: true,
+  // the scripted rows are already normalized
+  normalizeHostaway: (raw: Review) => raw,
+  fetchHostawayReviews: async (opts: { since?: number } = {}) => {
+    upstream.calls.push(opts);
+    const next = upstream.loads.shift();
+    if (!next) throw new Error("unexpected upstream call");
+    return next;
+  },
+}));
+
+let sync: typeof import("./hostaway-sync");
+let store: typeof import("./review-store");
+let dir: string;
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "flex-sync-"));
+  process.env.FLEX_STORE_DIR = dir;
+  sync = await import("./hostaway-sync");
+  store = await import("./review-store");
+});
+
+afterAll(() => fs.rm(dir, { recursive: true, force: true }));
+
+beforeEach(async () => {
+  upstream.loads = [];
+  upstream.calls = [];
+  for (const f of await fs.readdir(dir)) await fs.rm(path.join(dir, f));
+});
+
+const DAY = 86_400_000;
+const T0 = Date.UTC(2025, 0, 1);
+
+function review(id: number, day: number, extra: Partial<Review> = {}): Review {
+  const iso = new Date(T0 + day * DAY).toISOString();
+  return {
+    id, rating: 8, publicReview: `review ${id}`, reviewCategory: [], guestName: "Guest", listingName: "Flat",
+    submittedAt: iso.slice(0, 19).replace("T", " "), submittedAtIso: iso, submittedAtTs: T0 + day * DAY,
+    ...extra,
+  };
+}
+
+const live = (items: Review[], mode = "live"): SourceFetch<Review> => ({ items, mode, errors: [] });
+
+describe("syncHostaway", () => {
+  it("seeds the store and moves the watermark to the newest change", async () => {
+    upstream.loads.push(live([review(1, 1), review(2, 5), review(3, 3)]));
+    const r = await sync.syncHostaway();
+
+    expect(r).toMatchObject({ ok: true, full: false, fetched: 3, changed: 3, inserted: 3, watermark: T0 + 5 * DAY });
+    expect(upstream.calls).toEqual([{ since: 0 }]);
+    expect(await store.readStoredReviews()).toHaveLength(3);
+    expect((await sync.getSyncState()).watermark).toBe(T0 + 5 * DAY);
+  });
+
+  it("passes the watermark upstream and only upserts rows changed since", async () => {
+    upstream.loads.push(live([review(1, 1), review(2, 5)]));
+    await sync.syncHostaway();
+
+    const edited = review(1, 1, { updatedAtTs: T0 + 9 * DAY, publicReview: "edited" });
+    upstream.loads.push(live([edited, review(2, 5), review(4, 2)]));
+    const r = await sync.syncHostaway();
+
+    expect(upstream.calls[1]).toEqual({ since: T0 + 5 * DAY });
+    // review 2 shares the watermark (>=), review 4 is older than it
+    expect(r).toMatchObject({ ok: true, changed: 2, updated: 1, unchanged: 1, inserted: 0, watermark: T0 + 9 * DAY });
+    const rows = (await store.readStoredReviews()) ?? [];
+    expect(rows.find(x => x.id === 1)?.publicReview).toBe("edited");
+    expect(rows.some(x => x.id === 4)).toBe(false);
+  });
+
+  it("re-upserts everything on a full sync", async () => {
+    upstream.loads.push(live([review(1, 1), review(2, 5)]));
+    await sync.syncHostaway();
+    upstream.loads.push(live([review(1, 1), review(2, 5), review(4, 2)]));
+    const r = await sync.syncHostaway({ full: true });
+
+    expect(upstream.calls[1]).toEqual({ since: 0 });
+    expect(r).toMatchObject({ full: true, changed: 3, inserted: 1, unchanged: 2 });
+  });
+
+  it("keeps the watermark after a partial page-through", async () => {
+    upstream.loads.push(live([review(1, 1)]));
+    await sync.syncHostaway();
+    upstream.loads.push({ items: [review(2, 8)], mode: "live-partial", errors: ["offset 100: boom"] });
+    const r = await sync.syncHostaway();
+
+    expect(r).toMatchObject({ ok: true, inserted: 1, watermark: T0 + DAY, errors: ["offset 100: boom"] });
+  });
+
+  it("writes nothing when the live call fails", async () => {
+    upstream.loads.push({ items: [], mode: "live-error", errors: ["token:500"], degraded: true });
+    const r = await sync.syncHostaway();
+
+    expect(r).toMatchObject({ ok: false, source: "live-error", errors: ["token:500"], watermark: 0 });
+    expect(await store.readStoredReviews()).toBeNull();
+    expect((await sync.getSyncState()).lastSyncAt).toBeNull();
+  });
+
+  it("records an empty live account as a successful sync of nothing", async () => {
+    upstream.loads.push({ items: [review(99, 1)], mode: "live-empty-fallback", errors: [], degraded: true });
+    const r = await sync.syncHostaway();
+
+    expect(r).toMatchObject({ ok: true, fetched: 0, changed: 0 });
+    expect(await store.readStoredReviews()).toEqual([]);
+    expect((await sync.getSyncState()).lastSyncAt).not.toBeNull();
+  });
+
+  it("queues a full sync behind a running incremental one", async () => {
+    upstream.loads.push(live([review(1, 1)]), live([review(1, 1), review(2, 2)]));
+    const incremental = sync.syncHostaway();
+    const full = sync.syncHostaway({ full: true });
+    const again = sync.syncHostaway({ full: true });
+
+    expect((await incremental).full).toBe(false);
+    expect(await full).toMatchObject({ full: true, inserted: 1 });
+    expect(await again).toBe(await full);
+    expect(upstream.calls).toEqual([{ since: 0 }, { since: 0 }]);
+  });
+});
+
+describe("loadStoredReviews", () => {
+  it("serves nothing, with the errors, when the bootstrap sync fails", async () => {
+    upstream.loads.push({ items: [], mode: "live-error", errors: ["down"], degraded: true });
+    expect(await sync.loadStoredReviews()).toEqual({ rows: [], source: "live-error", errors: ["down"] });
+  });
+});
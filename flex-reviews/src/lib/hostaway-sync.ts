@@ -0,0 +1,165 @@
+// src/lib/hostaway-sync.ts
+// Incremental Hostaway → review store sync, the store-backed loader the routes read from,
+// and the Hostaway ReviewSource adapter tying the two together.
+import { fetchHostawayReviews, normalizeHostaway, USE_LIVE, type HostawayReviewLike } from "./hostaway";
+import { readJson, writeJson } from "./json-store";
+import { notifyNewReviews } from "./notifications";
+import type { Review } from "./review-query";
+import { changeTs, readStoredReviews, upsertReviews } from "./review-store";
+import { pullReviews, type ReviewSource } from "./source-adapter";
+
+export type SyncResult = {
+  ok: boolean;
+  /** upstream mode, see `fetchHostawayReviews` */
+  source: string;
+  full: boolean;
+  fetched: number;
+  changed: number;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  watermark: number;
+  errors: string[];
+  startedAt: string;
+  finishedAt: string;
+};
+
+export type SyncState = {
+  /** max change time (ms) of rows already in the store */
+  watermark: number;
+  lastSyncAt: string | null;
+  lastResult: SyncResult | null;
+};
+
+const STATE_FILE = "sync-state.json";
+const EMPTY_STATE: SyncState = { watermark: 0, lastSyncAt: null, lastResult: null };
+
+export async function getSyncState(): Promise<SyncState> {
+  return readJson<SyncState>(STATE_FILE, EMPTY_STATE);
+}
+
+async function runSync(full: boolean): Promise<SyncResult> {
+  const startedAt = new Date().toISOString();
+  const state = await getSyncState();
+  const since = full ? 0 : state.watermark;
+
+  // The watermark goes upstream too, so an incremental run only pages back as far as it
+  const upstream = await pullReviews(hostawaySource, { listing: null, mock: false, since });
+  // A live account without reviews gets mock rows to look at; the store gets none of them
+  const emptyAccount = upstream.mode === "live-empty-fallback";
+  const rows = emptyAccount ? [] : upstream.items;
+  const base = {
+    source: upstream.mode,
+    full,
+    fetched: rows.length,
+    errors: upstream.errors,
+    startedAt,
+  };
+
+  // Never persist mock rows that only stand in for a failed live call
+  if (upstream.degraded && !emptyAccount) {
+    const result: SyncResult = {
+      ...base, ok: false, changed: 0, inserted: 0, updated: 0, unchanged: 0,
+      watermark: state.watermark, finishedAt: new Date().toISOString(),
+    };
+    await writeJson(STATE_FILE, { ...state, lastResult: result });
+    return result;
+  }
+
+  // >= rather than >: rows sharing the watermark's timestamp may be new; upserts are idempotent
+  const changed = rows.filter(r => changeTs(r) >= since);
+  const { insertedRows, initialLoad, ...counts } = await upsertReviews(changed);
+  await notifyNewReviews(insertedRows, { initialLoad });
+
+  // A partial page-through may have skipped older pages, so don't move the watermark past them
+  const watermark = upstream.mode === "live-partial"
+    ? state.watermark
+    : changed.reduce((max, r) => Math.max(max, changeTs(r)), since);
+
+  const result: SyncResult = {
+    ...base,
+    ok: true,
+    changed: changed.length,
+    ...counts,
+    watermark,
+    finishedAt: new Date().toISOString(),
+  };
+  await writeJson(STATE_FILE, { watermark, lastSyncAt: result.finishedAt, lastResult: result });
+  return result;
+}
+
+// One sync at a time per process; concurrent callers share the running one
+let running: { full: boolean; result: Promise<SyncResult> } | null = null;
+let queuedFull: Promise<SyncResult> | null = null;
+
+function start(full: boolean): Promise<SyncResult> {
+  const result = runSync(full).finally(() => { running = null; });
+  running = { full, result };
+  return result;
+}
+
+/**
+ * A full sync asked for while an incremental one runs is queued behind it (once, however
+ * many callers ask), since joining the incremental run wouldn't re-upsert everything.
+ */
+export function syncHostaway(opts: { full?: boolean } = {}): Promise<SyncResult> {
+  const full = !!opts.full;
+  if (!running) return start(full);
+  if (!full || running.full) return running.result;
+  if (!queuedFull) {
+    queuedFull = running.result
+      .catch(() => undefined)
+      .then(() => {
+        queuedFull = null;
+        return syncHostaway({ full: true });
+      });
+  }
+  return queuedFull;
+}
+
+export type StoredReviews = {
+  rows: Review[];
+  /** "store", or "live-error" (and no rows) when the bootstrap sync failed */
+  source: string;
+  errors: string[];
+};
+
+/**
+ * Reviews for the API routes, served from the local store. The first call
+ * on an empty store runs a bootstrap sync; if that fails there is nothing to
+ * serve, and the sync's errors are returned with no rows (`live-error`).
+ */
+export async function loadStoredReviews(): Promise<StoredReviews> {
+  let rows = await readStoredReviews();
+  if (rows === null) {
+    const boot = await syncHostaway();
+    if (!boot.ok) return { rows: [], source: "live-error", errors: boot.errors };
+    rows = (await readStoredReviews()) ?? [];
+  }
+  const { lastResult } = await getSyncState();
+  return { rows: rows.slice(), source: "store", errors: lastResult?.errors ?? [] };
+}
+
+// ---------- ReviewSource adapter ----------
+/** Upstream = Hostaway (or its mock); routes read the synced store instead. */
+export const hostawaySource: ReviewSource<HostawayReviewLike> = {
+  name: "hostaway",
+  channel: "Hostaway",
+  capabilities: { perListing: false, mock: true, replies: true, stored: true },
+  cacheTtlMs: 0, // the store has its own mtime-keyed cache
+  fetch: (ctx) => fetchHostawayReviews({ since: ctx.since }),
+  normalize: (raw) => normalizeHostaway(raw),
+  async read() {
+    const { rows, source, errors } = await loadStoredReviews();
+    return { items: rows, mode: source, errors, degraded: source === "live-error" };
+  },
+  async health() {
+    const { lastResult, lastSyncAt } = await getSyncState();
+    if (!USE_LIVE) return { status: "unconfigured", detail: "no credentials; serving the bundled mock" };
+    if (!lastResult) return { status: "ok", detail: "not synced yet" };
+    if (!lastResult.ok) return { status: "down", detail: lastResult.errors.join("; ") || "last sync failed" };
+    return lastResult.errors.length
+      ? { status: "degraded", detail: lastResult.errors.join("; ") }
+      : { status: "ok", detail: `last sync ${lastSyncAt}` };
+  },
+};
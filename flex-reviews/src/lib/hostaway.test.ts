@@ -0,0 +1,78 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+// Live mode against a fake /v1/reviews: `rows` newest change first, 1 day apart
+const DAY = 86_400_000;
+const T0 = Date.UTC(2025, 5, 1);
+const rows = Array.from({ length: 250 }, (_, i) => ({
+  id: i + 1,
+  listingName: "Flat",
+  submittedAt: "2025-01-01 10:00:00",
+  updatedAt: new Date(T0 - i * DAY).toISOString(),
+}));
+
+let requests: URL[] = [];
+let failAtOffset: number | null = null;
+
+function fakeFetch(input: string | URL | Request): Promise<Response> {
+  const url = new URL(String(input));
+  if (url.pathname === "/v1/accessTokens") {
+    return Promise.resolve(Response.json({ access_token: "t", expires_in: 3600 }));
+  }
+  requests.push(url);
+  const offset = Number(url.searchParams.get("offset"));
+  if (offset === failAtOffset) return Promise.resolve(new Response("nope", { status: 400 }));
+  const sorted = url.searchParams.get("sortOrder") === "desc" ? rows : [...rows].reverse();
+  const limit = Number(url.searchParams.get("limit"));
+  return Promise.resolve(Response.json({ status: "success", result: sorted.slice(offset, offset + limit), count: rows.length }));
+}
+
+let hostaway: typeof import("./hostaway");
+
+beforeAll(async () => {
+  vi.stubEnv("HOSTAWAY_ACCOUNT_ID", "1");
+  vi.stubEnv("HOSTAWAY_API_KEY", "key");
+  vi.stubEnv("HOSTAWAY_BASE_URL", "http://hostaway.test");
+  vi.stubGlobal("fetch", fakeFetch);
+  hostaway = await import("./hostaway");
+});
+
+afterEach(() => {
+  requests = [];
+  failAtOffset = null;
+});
+
+describe("fetchLiveReviews", () => {
+  it("pages through everything without a watermark", async () => {
+    const r = await hostaway.fetchLiveReviews();
+    expect(r.complete).toBe(true);
+    expect(r.rows).toHaveLength(250);
+    expect(requests.map(u => u.searchParams.get("offset"))).toEqual(["0", "100", "200"]);
+    expect(requests[0].searchParams.has("sortBy")).toBe(false);
+  });
+
+  it("stops after the page that reaches the watermark", async () => {
+    const since = T0 - 150 * DAY;
+    const r = await hostaway.fetchLiveReviews({ since });
+    expect(r.complete).toBe(true);
+    expect(requests.map(u => u.searchParams.get("offset"))).toEqual(["0", "100"]);
+    expect(requests[0].searchParams.get("sortOrder")).toBe("desc");
+    expect(r.rows.filter(x => Date.parse(x.updatedAt ?? "") >= since)).toHaveLength(151);
+  });
+
+  it("returns what it has, incomplete, when a later page fails", async () => {
+    failAtOffset = 100;
+    const r = await hostaway.fetchLiveReviews();
+    expect(r).toMatchObject({ complete: false });
+    expect(r.rows).toHaveLength(100);
+    expect(r.errors[0]).toMatch(/^offset 100:/);
+  });
+});
+
+describe("fetchHostawayReviews", () => {
+  it("reports a failed first page with no rows instead of mock data", async () => {
+    failAtOffset = 0;
+    const r = await hostaway.fetchHostawayReviews();
+    expect(r).toMatchObject({ items: [], mode: "live-error", degraded: true });
+    expect(r.errors).toHaveLength(1);
+  });
+});
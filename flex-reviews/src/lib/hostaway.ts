@@ -0,0 +1,391 @@
+// src/lib/hostaway.ts
+// Hostaway client: token cache, live fetch + normalization, and the bundled mock fallback.
+import fs from "node:fs";
+import path from "node:path";
+import type { CategoryRating, Review } from "./review-query";
+import { changeTs } from "./review-store";
+import type { SourceFetch } from "./source-adapter";
+
+// ---------- Types ----------
+export type HostawayReviewLike = {
+  id?: number | string;
+  reviewId?: number | string;
+  _id?: string;
+  uuid?: string;
+  listingName?: string;
+  propertyName?: string;
+  listing?: { name?: string } | null;
+  property?: { name?: string } | null;
+  guestName?: string;
+  reviewerName?: string;
+  guest?: { name?: string } | null;
+  authorName?: string;
+  publicReview?: string;
+  review?: string;
+  comment?: string;
+  text?: string;
+  status?: string;
+  channel?: string;
+  source?: string;
+  platform?: string;
+  channelId?: string | number;
+  type?: string;
+  direction?: string;
+  rating?: number | null;
+  overallRating?: number | null;
+  score?: number;
+  reviewCategory?: Array<{ category?: unknown; rating?: unknown }>;
+  categories?: Record<string, unknown>;
+  submittedAtIso?: string;
+  createdAt?: string;
+  date?: string;
+  created?: string;
+  updatedAt?: string;
+  submittedAt?: string;
+  approved?: boolean;
+  isApproved?: boolean;
+  visibility?: string;
+};
+
+/** The /v1/listings fields the listings catalog reads (see listings.ts). */
+export type HostawayListingLike = {
+  id?: number | string;
+  name?: string;
+  externalListingName?: string;
+  description?: string;
+  houseRules?: string | null;
+  personCapacity?: number | null;
+  bedroomsNumber?: number | null;
+  bathroomsNumber?: number | null;
+  bedsNumber?: number | null;
+  roomType?: string | null;
+  address?: string | null;
+  city?: string | null;
+  countryCode?: string | null;
+  /** hours of the day, 0–23 */
+  checkInTimeStart?: number | null;
+  checkOutTime?: number | null;
+  cancellationPolicy?: string | null;
+  listingAmenities?: Array<{ amenityId?: number; amenityName?: string }> | null;
+};
+
+// ---------- Env / toggles ----------
+const BASE_URL = process.env.HOSTAWAY_BASE_URL || "https://api.hostaway.com";
+const ACCOUNT_ID = process.env.HOSTAWAY_ACCOUNT_ID;
+const API_KEY = process.env.HOSTAWAY_API_KEY;
+export const USE_LIVE = !!(ACCOUNT_ID && API_KEY);
+
+// ---------- Mock loader (fallback) ----------
+let MOCK_CACHE: Review[] | null = null;
+export function loadMock(): Review[] {
+  if (MOCK_CACHE) return MOCK_CACHE;
+  const file = path.join(process.cwd(), "data", "mock-reviews.json");
+  const raw = fs.readFileSync(file, "utf8");
+  const json = JSON.parse(raw);
+  MOCK_CACHE = (json?.result ?? []) as Review[];
+  return MOCK_CACHE;
+}
+
+// ---------- Utilities ----------
+type HasTextMethod = { text: () => Promise<string> };
+async function safeText(res: HasTextMethod): Promise<string> {
+  try { return await res.text(); } catch { return "<no body>"; }
+}
+function isRecord(x: unknown): x is Record<string, unknown> {
+  return typeof x === "object" && x !== null;
+}
+function getResultArray(v: unknown): unknown[] {
+  if (Array.isArray(v)) return v;
+  if (isRecord(v) && Array.isArray((v as { result?: unknown[] }).result)) {
+    return (v as { result: unknown[] }).result;
+  }
+  return [];
+}
+
+// ---------- Token cache ----------
+let tokenCache: { token: string; exp: number } | null = null;
+
+export async function getHostawayToken(opts: { forceRefresh?: boolean } = {}): Promise<string> {
+  if (!USE_LIVE) throw new Error("LIVE_DISABLED");
+  const now = Date.now();
+  if (opts.forceRefresh) tokenCache = null;
+  if (tokenCache && now < tokenCache.exp) return tokenCache.token;
+
+  const body = new URLSearchParams({
+    grant_type: "client_credentials",
+    client_id: String(ACCOUNT_ID),
+    client_secret: String(API_KEY),
+    scope: "general",
+  });
+
+  const r = await fetch(`${BASE_URL}/v1/accessTokens`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/x-www-form-urlencoded",
+      "Cache-Control": "no-cache",
+    },
+    body,
+  });
+
+  if (!r.ok) {
+    throw new Error(`token:${r.status} ${await safeText(r as HasTextMethod)}`);
+  }
+
+  const j = (await r.json()) as { access_token: string; expires_in?: number };
+  const exp = now + Math.max(0, (Number(j.expires_in ?? 3600) - 60) * 1000);
+  tokenCache = { token: j.access_token, exp };
+  return j.access_token;
+}
+
+// ---------- Live fetch + normalize ----------
+export function normalizeHostaway(raw: HostawayReviewLike): Review {
+  const id =
+    raw.id ?? raw.reviewId ?? raw._id ?? raw.uuid ?? Math.random().toString(36).slice(2);
+
+  const listingName =
+    raw.listingName ??
+    raw.propertyName ??
+    raw.listing?.name ??
+    raw.property?.name ??
+    "Unknown Property";
+
+  const guestName =
+    raw.guestName ??
+    raw.reviewerName ??
+    raw.guest?.name ??
+    raw.authorName ??
+    "Guest";
+
+  const publicReview = raw.publicReview ?? raw.review ?? raw.comment ?? raw.text ?? "";
+  const status = raw.status ?? "published";
+
+  const channel =
+    raw.channel ?? raw.source ?? raw.platform ?? (raw.channelId ? `channel:${raw.channelId}` : undefined);
+  const type = raw.type ?? raw.direction ?? undefined;
+
+  const rating =
+    raw.rating ??
+    raw.overallRating ??
+    (Number.isFinite(raw.score as number) ? Number(raw.score) : null) ??
+    null;
+
+  let reviewCategory: CategoryRating[] = [];
+  if (Array.isArray(raw.reviewCategory)) {
+    reviewCategory = (raw.reviewCategory as Array<{ category?: unknown; rating?: unknown }>).map((c) => ({
+      category: String(c.category ?? ""),
+      rating: c.rating == null ? null : Number(c.rating),
+    })).filter(cr => cr.category.length > 0);
+  } else if (raw.categories && isRecord(raw.categories)) {
+    reviewCategory = Object.entries(raw.categories).map(([category, val]) => ({
+      category,
+      rating: val == null ? null : Number(val),
+    }));
+  }
+
+  const iso =
+    raw.submittedAtIso ?? raw.createdAt ?? raw.date ?? raw.created ?? raw.updatedAt ?? undefined;
+  const submittedAt =
+    raw.submittedAt ??
+    (iso ? new Date(iso).toISOString().slice(0, 19).replace("T", " ") : "1970-01-01 00:00:00");
+
+  const approved =
+    raw.approved ??
+    raw.isApproved ??
+    (raw.visibility === "public" ? true : undefined);
+
+  return {
+    id,
+    type,
+    status,
+    channel,
+    rating,
+    ratingScale: 10, // Hostaway scores everything /10
+    publicReview,
+    reviewCategory,
+    submittedAt,
+    submittedAtIso: iso,
+    submittedAtTs: iso ? Date.parse(iso) : undefined,
+    updatedAtTs: raw.updatedAt && !Number.isNaN(Date.parse(raw.updatedAt)) ? Date.parse(raw.updatedAt) : undefined,
+    guestName,
+    listingName,
+    approved,
+  };
+}
+
+// ---------- Resilient requests (retry / backoff / token refresh) ----------
+const PAGE_SIZE = 100;
+const MAX_PAGES = 500;     // hard stop against a misbehaving paginator
+const MAX_RETRIES = 4;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 30_000;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/** Retry-After is either delta-seconds or an HTTP date. */
+function retryAfterMs(r: Response): number | null {
+  const h = r.headers.get("retry-after");
+  if (!h) return null;
+  const secs = Number(h);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(h);
+  return Number.isNaN(at) ? null : Math.max(0, at - Date.now());
+}
+function backoffMs(attempt: number): number {
+  const exp = BASE_BACKOFF_MS * 2 ** attempt;
+  return Math.min(MAX_BACKOFF_MS, exp + Math.random() * BASE_BACKOFF_MS);
+}
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Call a Hostaway path (GET unless `init` says otherwise; only use
+ * idempotent methods). 429/5xx and network errors are retried with
+ * exponential backoff (Retry-After wins when present); a 401 refreshes
+ * the token once. Throws after the last attempt.
+ */
+export async function hostawayRequest(
+  pathAndQuery: string,
+  init: { method?: "GET" | "PUT"; body?: unknown } = {}
+): Promise<unknown> {
+  let token = await getHostawayToken();
+  let refreshed = false;
+
+  for (let attempt = 0; ; attempt++) {
+    let r: Response;
+    try {
+      r = await fetch(`${BASE_URL}${pathAndQuery}`, {
+        method: init.method ?? "GET",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "Cache-Control": "no-cache",
+          ...(init.body !== undefined ? { "Content-Type": "application/json" } : {}),
+        },
+        body: init.body !== undefined ? JSON.stringify(init.body) : undefined,
+      });
+    } catch (e) {
+      if (attempt >= MAX_RETRIES) throw e;
+      await sleep(backoffMs(attempt));
+      continue;
+    }
+
+    if (r.ok) return (await r.json()) as unknown;
+
+    if (r.status === 401 && !refreshed) {
+      refreshed = true;
+      token = await getHostawayToken({ forceRefresh: true });
+      attempt--; // a token refresh doesn't count as a retry
+      continue;
+    }
+
+    if (isRetryable(r.status) && attempt < MAX_RETRIES) {
+      const wait = retryAfterMs(r) ?? backoffMs(attempt);
+      await sleep(Math.min(wait, MAX_BACKOFF_MS));
+      continue;
+    }
+
+    throw new Error(`${pathAndQuery}:${r.status} ${await safeText(r as HasTextMethod)}`);
+  }
+}
+
+export type LiveFetchResult<T = HostawayReviewLike> = {
+  rows: T[];
+  /** false when a later page still failed after retries; `rows` holds what was fetched. */
+  complete: boolean;
+  errors: string[];
+};
+
+type PageOptions<T> = {
+  /** extra query string, e.g. a sort order */
+  query?: string;
+  /** ends the page-through early (as complete) once a page shows nothing further is wanted */
+  isLastPage?: (batch: T[]) => boolean;
+};
+
+/** Pages through a list endpoint with limit/offset until a short page (or `count`) ends it. Raw records. */
+async function fetchAllPages<T>(endpoint: string, opts: PageOptions<T> = {}): Promise<LiveFetchResult<T>> {
+  const rows: T[] = [];
+  const errors: string[] = [];
+  const extra = opts.query ? `&${opts.query}` : "";
+
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const offset = page * PAGE_SIZE;
+    let data: unknown;
+    try {
+      data = await hostawayRequest(`${endpoint}?limit=${PAGE_SIZE}&offset=${offset}${extra}`);
+    } catch (e) {
+      // Nothing fetched yet → let the caller decide on a fallback
+      if (page === 0) throw e;
+      errors.push(`offset ${offset}: ${e instanceof Error ? e.message : String(e)}`);
+      return { rows, complete: false, errors };
+    }
+
+    const batch = getResultArray(data);
+    for (const u of batch) rows.push(u as T);
+
+    const count = isRecord(data) && typeof data.count === "number" ? data.count : null;
+    if (batch.length < PAGE_SIZE || (count !== null && rows.length >= count)) {
+      return { rows, complete: true, errors };
+    }
+    if (opts.isLastPage?.(batch as T[])) return { rows, complete: true, errors };
+  }
+
+  errors.push(`stopped after ${MAX_PAGES} pages`);
+  return { rows, complete: false, errors };
+}
+
+// Newest change first, so an incremental pull can stop at the watermark
+const REVIEWS_BY_CHANGE_DESC = "sortBy=updatedOn&sortOrder=desc";
+
+/**
+ * Every review, or with `since` (ms) only the pages reaching back to that change time: the
+ * reviews are requested newest-change-first and paging stops after the first page that ends
+ * before `since`. A page that isn't in that order (the sort wasn't honoured) never stops it,
+ * so the worst case is a full page-through. Rows older than `since` may still be included.
+ */
+export function fetchLiveReviews(opts: { since?: number } = {}): Promise<LiveFetchResult> {
+  const since = opts.since ?? 0;
+  if (since <= 0) return fetchAllPages<HostawayReviewLike>("/v1/reviews");
+
+  return fetchAllPages<HostawayReviewLike>("/v1/reviews", {
+    query: REVIEWS_BY_CHANGE_DESC,
+    isLastPage: (batch) => {
+      const ts = batch.map(raw => changeTs(normalizeHostaway(raw)));
+      const descending = ts.every((t, i) => i === 0 || t <= ts[i - 1]);
+      return descending && ts[ts.length - 1] < since;
+    },
+  });
+}
+
+export function fetchLiveListings(): Promise<LiveFetchResult<HostawayListingLike>> {
+  return fetchAllPages<HostawayListingLike>("/v1/listings");
+}
+
+// ---------- Source selection ----------
+/**
+ * Raw live reviews when credentials are configured, otherwise the mock file.
+ * `mode` says which one was used: "live" | "live-partial" | "live-empty-fallback" |
+ * "live-error" | "mock" (surfaced as `x-source`); `errors` carries upstream failures so
+ * callers can report them. A live account whose first page fails gets no rows at all
+ * (`degraded`), never mock ones. The mock rows are already normalized, which
+ * normalizeHostaway passes through unchanged. `since` narrows a live fetch, see fetchLiveReviews.
+ */
+export async function fetchHostawayReviews(opts: { since?: number } = {}): Promise<SourceFetch<HostawayReviewLike>> {
+  const mock = (): HostawayReviewLike[] => loadMock().slice();
+  try {
+    if (USE_LIVE) {
+      const live = await fetchLiveReviews(opts);
+      if (!live.complete) {
+        console.warn("Hostaway partial fetch:", live.errors);
+        return { items: live.rows, mode: "live-partial", errors: live.errors };
+      }
+      if (live.rows.length > 0) return { items: live.rows, mode: "live", errors: [] };
+      return { items: mock(), mode: "live-empty-fallback", errors: [], degraded: true };
+    }
+    return { items: mock(), mode: "mock", errors: [] };
+  } catch (e) {
+    console.warn("Hostaway error:", e);
+    const msg = e instanceof Error ? e.message : String(e);
+    return { items: [], mode: "live-error", errors: [msg], degraded: true };
+  }
+}
@@ -0,0 +1,88 @@
+// src/lib/json-store.ts
+import fs from "node:fs/promises";
+import path from "node:path";
+
+// Mutable server-side state (approvals etc.) lives apart from the bundled
+// fixtures in data/. Point FLEX_STORE_DIR at a writable volume in production.
+const STORE_DIR = process.env.FLEX_STORE_DIR || path.join(process.cwd(), "data", "store");
+
+export function storePath(name: string): string {
+  return path.join(STORE_DIR, name);
+}
+
+function isMissing(e: unknown): boolean {
+  return typeof e === "object" && e !== null && (e as { code?: string }).code === "ENOENT";
+}
+
+export async function readJson<T>(name: string, fallback: T): Promise<T> {
+  try {
+    const raw = await fs.readFile(storePath(name), "utf8");
+    return JSON.parse(raw) as T;
+  } catch (e) {
+    if (isMissing(e)) return fallback;
+    throw e;
+  }
+}
+
+export async function writeJson(name: string, value: unknown): Promise<void> {
+  const file = storePath(name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  // write-then-rename so readers never observe a half-written file
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(value, null, 2));
+  await fs.rename(tmp, file);
+}
+
+// ---------- JSON lines (one record per line) ----------
+export async function readJsonLines<T>(name: string): Promise<T[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(storePath(name), "utf8");
+  } catch (e) {
+    if (isMissing(e)) return [];
+    throw e;
+  }
+  return raw.split("\n").filter(line => line.trim()).map(line => JSON.parse(line) as T);
+}
+
+export async function writeJsonLines(name: string, rows: unknown[]): Promise<void> {
+  const file = storePath(name);
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, rows.map(r => JSON.stringify(r)).join("\n") + (rows.length ? "\n" : ""));
+  await fs.rename(tmp, file);
+}
+
+/** mtime of a store file, or null when it doesn't exist yet (cheap cache key). */
+export async function storeMtime(name: string): Promise<number | null> {
+  try {
+    return (await fs.stat(storePath(name))).mtimeMs;
+  } catch (e) {
+    if (isMissing(e)) return null;
+    throw e;
+  }
+}
+
+// ---------- Serialized read-modify-write ----------
+const queues = new Map<string, Promise<unknown>>();
+
+/** Runs `task` after every earlier task queued under the same store file. */
+export function serialize<T>(name: string, task: () => Promise<T>): Promise<T> {
+  const prev = queues.get(name) ?? Promise.resolve();
+  const next = prev.catch(() => undefined).then(task);
+  queues.set(name, next);
+  return next;
+}
+
+export function updateJson<T>(
+  name: string,
+  fallback: T,
+  fn: (current: T) => T | Promise<T>
+): Promise<T> {
+  return serialize(name, async () => {
+    const current = await readJson<T>(name, fallback);
+    const updated = await fn(current);
+    await writeJson(name, updated);
+    return updated;
+  });
+}
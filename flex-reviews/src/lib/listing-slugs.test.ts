@@ -0,0 +1,59 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from "vitest";
+
+let slugs: typeof import("./listing-slugs");
+let dir: string;
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "flex-slugs-"));
+  process.env.FLEX_STORE_DIR = dir;
+  slugs = await import("./listing-slugs");
+});
+
+afterAll(() => fs.rm(dir, { recursive: true, force: true }));
+
+beforeEach(async () => {
+  for (const f of await fs.readdir(dir)) await fs.rm(path.join(dir, f));
+});
+
+describe("slugify", () => {
+  it("lowercases, folds accents and joins words with dashes", () => {
+    expect(slugs.slugify("2B N1 A - 29 Shoreditch Heights")).toBe("2b-n1-a-29-shoreditch-heights");
+    expect(slugs.slugify("Café de l’Opéra")).toBe("cafe-de-lopera");
+    expect(slugs.slugify("  ***  ")).toBe("listing");
+  });
+});
+
+describe("assignListingSlugs", () => {
+  it("keeps the old slug and name when a listing is renamed", async () => {
+    await slugs.assignListingSlugs([{ id: 1, name: "Old Street Loft" }]);
+    const map = await slugs.assignListingSlugs([{ id: 1, name: "Shoreditch Loft" }]);
+    expect(map["1"]).toEqual({
+      slug: "shoreditch-loft",
+      name: "Shoreditch Loft",
+      previousSlugs: ["old-street-loft"],
+      previousNames: ["Old Street Loft"],
+    });
+  });
+
+  it("appends the listing ID when the slug is taken, old slugs included", async () => {
+    await slugs.assignListingSlugs([{ id: 1, name: "Loft" }]);
+    await slugs.assignListingSlugs([{ id: 1, name: "Garden Flat" }]);
+    const map = await slugs.assignListingSlugs([{ id: 1, name: "Garden Flat" }, { id: 2, name: "Loft" }]);
+    expect(map["2"].slug).toBe("loft-2");
+  });
+
+  it("doesn't rewrite unchanged listings", async () => {
+    const first = await slugs.assignListingSlugs([{ id: 1, name: "Loft" }]);
+    expect(await slugs.assignListingSlugs([{ id: 1, name: "Loft" }])).toEqual(first);
+    expect(first["1"].previousSlugs).toEqual([]);
+  });
+
+  it("keeps mock listings out of the live map", async () => {
+    await slugs.assignListingSlugs([{ id: 1, name: "Mock Loft" }], true);
+    expect(await slugs.getListingSlugs()).toEqual({});
+    expect(Object.keys(await slugs.getListingSlugs(true))).toEqual(["1"]);
+  });
+});
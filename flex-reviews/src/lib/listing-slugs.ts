@@ -0,0 +1,81 @@
+// src/lib/listing-slugs.ts
+// URL slugs for the property pages, kept per listing ID in data/store/listing-slugs.json.
+// A slug is generated from the listing's name the first time the catalog sees it; when
+// Hostaway renames the listing it gets a new slug and the old slug and name are kept, so
+// links to either can be redirected (see findListingByPath in listings.ts).
+// Mock catalogs (no credentials, or a Hostaway fallback) use listing-slugs.mock.json, so the
+// mock listings' IDs never claim slugs in the live map.
+import { readJson, serialize, writeJson } from "./json-store";
+
+const FILES = { live: "listing-slugs.json", mock: "listing-slugs.mock.json" };
+
+function fileFor(mock: boolean): string {
+  return mock ? FILES.mock : FILES.live;
+}
+
+export type SlugEntry = {
+  slug: string;
+  /** the name the slug was generated from */
+  name: string;
+  previousSlugs: string[];
+  previousNames: string[];
+};
+
+/** listing ID → entry */
+export type SlugMap = Record<string, SlugEntry>;
+
+/** "2B N1 A - 29 Shoreditch Heights" → "2b-n1-a-29-shoreditch-heights" */
+export function slugify(name: string): string {
+  const slug = name
+    .normalize("NFD")
+    .replace(/\p{M}+/gu, "")
+    .toLowerCase()
+    .replace(/['’]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+  return slug || "listing";
+}
+
+export function getListingSlugs(mock = false): Promise<SlugMap> {
+  return readJson<SlugMap>(fileFor(mock), {});
+}
+
+/**
+ * Gives every listing a slug (new listings and renamed ones), and returns the map.
+ * Slugs are never handed out twice, old ones included: a clash gets the listing ID appended.
+ * Listings missing from `listings` keep their entries, so their links stay resolvable.
+ */
+export function assignListingSlugs(listings: { id: number; name: string }[], mock = false): Promise<SlugMap> {
+  const file = fileFor(mock);
+  return serialize(file, async () => {
+    const map = await getListingSlugs(mock);
+    const owner = new Map<string, string>();
+    for (const [id, e] of Object.entries(map)) {
+      for (const s of [e.slug, ...e.previousSlugs]) owner.set(s, id);
+    }
+
+    let changed = false;
+    for (const { id, name } of listings) {
+      const key = String(id);
+      const prev = map[key];
+      if (prev && prev.name === name) continue;
+
+      const base = slugify(name);
+      const taken = (s: string) => owner.has(s) && owner.get(s) !== key;
+      const slug = taken(base) ? `${base}-${id}` : base;
+      map[key] = prev
+        ? {
+            slug,
+            name,
+            previousSlugs: slug === prev.slug ? prev.previousSlugs : [...prev.previousSlugs.filter(s => s !== slug), prev.slug],
+            previousNames: [...prev.previousNames.filter(n => n !== name), prev.name],
+          }
+        : { slug, name, previousSlugs: [], previousNames: [] };
+      owner.set(slug, key);
+      changed = true;
+    }
+
+    if (changed) await writeJson(file, map);
+    return map;
+  });
+}
@@ -0,0 +1,176 @@
+// src/lib/listings.ts
+// The listings catalog: Hostaway's /v1/listings normalized into `Listing`, with the bundled
+// data/mock-listings.json as the fallback (fetchHostawayReviews' modes, except that a failed
+// fetch falls back too, as "live-error-fallback": pages can't render without a catalog).
+// Reviews only carry a listing *name*, so `listingName` on a review matches `Listing.name`.
+// Each listing also gets a URL slug for its property pages (listing-slugs.ts).
+import fs from "node:fs";
+import path from "node:path";
+import { fetchLiveListings, USE_LIVE, type HostawayListingLike } from "./hostaway";
+import { assignListingSlugs, getListingSlugs, slugify } from "./listing-slugs";
+
+// Listings change far less often than reviews
+const CATALOG_TTL_MS = 10 * 60 * 1000;
+
+// ---------- Types ----------
+export type Listing = {
+  id: number;
+  /** the name reviews are filed under (`listingName`) */
+  name: string;
+  /** property page path segment: /properties/<slug> */
+  slug: string;
+  /** the guest-facing title on the channels, when Hostaway has one */
+  title: string | null;
+  /** "Entire home", "Private room", … */
+  roomType: string;
+  guests: number | null;
+  bedrooms: number | null;
+  bathrooms: number | null;
+  beds: number | null;
+  address: string | null;
+  city: string | null;
+  countryCode: string | null;
+  description: string;
+  amenities: string[];
+  /** one rule per line of Hostaway's free-text house rules */
+  houseRules: string[];
+  /** "3 pm" style, from Hostaway's hour-of-day fields */
+  checkIn: string | null;
+  checkOut: string | null;
+  /** a sentence for guests (Hostaway's policy codes are translated) */
+  cancellationPolicy: string | null;
+};
+
+export type ListingCatalog = {
+  listings: Listing[];
+  /** "live" | "live-partial" | "live-empty-fallback" | "live-error-fallback" | "mock" */
+  mode: string;
+  errors: string[];
+};
+
+// ---------- Normalize ----------
+const ROOM_TYPES: Record<string, string> = {
+  entire_home: "Entire home",
+  private_room: "Private room",
+  shared_room: "Shared room",
+};
+
+const CANCELLATION_POLICIES: Record<string, string> = {
+  flexible: "Full refund up to 1 day before arrival",
+  moderate: "Full refund up to 5 days before arrival",
+  strict: "50% refund up to 1 week before arrival",
+  flex_14_days: "100% refund up to 14 days before arrival",
+};
+
+function hourLabel(h: number | null | undefined): string | null {
+  if (typeof h !== "number" || !Number.isInteger(h) || h < 0 || h > 23) return null;
+  if (h === 0) return "midnight";
+  if (h === 12) return "noon";
+  return h < 12 ? `${h} am` : `${h - 12} pm`;
+}
+
+function count(n: number | null | undefined): number | null {
+  return typeof n === "number" && Number.isFinite(n) ? n : null;
+}
+
+export function normalizeListing(raw: HostawayListingLike): Omit<Listing, "slug"> {
+  const policy = raw.cancellationPolicy?.trim() || null;
+  return {
+    id: Number(raw.id),
+    name: raw.name?.trim() || `Listing ${raw.id}`,
+    title: raw.externalListingName?.trim() || null,
+    roomType: (raw.roomType && ROOM_TYPES[raw.roomType]) || "Apartment",
+    guests: count(raw.personCapacity),
+    bedrooms: count(raw.bedroomsNumber),
+    bathrooms: count(raw.bathroomsNumber),
+    beds: count(raw.bedsNumber),
+    address: raw.address?.trim() || null,
+    city: raw.city?.trim() || null,
+    countryCode: raw.countryCode?.trim() || null,
+    description: raw.description?.trim() ?? "",
+    amenities: (raw.listingAmenities ?? []).map(a => a.amenityName?.trim() ?? "").filter(Boolean),
+    houseRules: (raw.houseRules ?? "").split(/\r?\n/).map(l => l.trim()).filter(Boolean),
+    checkIn: hourLabel(raw.checkInTimeStart),
+    checkOut: hourLabel(raw.checkOutTime),
+    cancellationPolicy: policy ? CANCELLATION_POLICIES[policy] ?? policy : null,
+  };
+}
+
+// ---------- Mock loader (fallback) ----------
+let MOCK_CACHE: HostawayListingLike[] | null = null;
+function loadMockListings(): HostawayListingLike[] {
+  if (MOCK_CACHE) return MOCK_CACHE;
+  const raw = fs.readFileSync(path.join(process.cwd(), "data", "mock-listings.json"), "utf8");
+  MOCK_CACHE = (JSON.parse(raw)?.result ?? []) as HostawayListingLike[];
+  return MOCK_CACHE;
+}
+
+// ---------- Catalog ----------
+let catalogCache: { at: number; value: ListingCatalog } | null = null;
+
+type UnsluggedCatalog = Omit<ListingCatalog, "listings"> & { listings: Omit<Listing, "slug">[] };
+
+async function fetchCatalog(): Promise<UnsluggedCatalog> {
+  const mock = (mode: string, errors: string[] = []): UnsluggedCatalog => ({
+    listings: loadMockListings().map(normalizeListing),
+    mode,
+    errors,
+  });
+  if (!USE_LIVE) return mock("mock");
+  try {
+    const live = await fetchLiveListings();
+    if (!live.complete) {
+      console.warn("Hostaway partial listings fetch:", live.errors);
+      return { listings: live.rows.map(normalizeListing), mode: "live-partial", errors: live.errors };
+    }
+    if (live.rows.length > 0) return { listings: live.rows.map(normalizeListing), mode: "live", errors: [] };
+    return mock("live-empty-fallback");
+  } catch (e) {
+    console.warn("Hostaway listings error → mock fallback:", e);
+    return mock("live-error-fallback", [e instanceof Error ? e.message : String(e)]);
+  }
+}
+
+/** The catalog came from data/mock-listings.json rather than Hostaway. */
+function isMockCatalog(mode: string): boolean {
+  return mode === "mock" || mode.endsWith("-fallback");
+}
+
+/** Every listing, sorted by name; live results are kept for CATALOG_TTL_MS, fallbacks aren't. */
+export async function getListings(): Promise<ListingCatalog> {
+  if (catalogCache && Date.now() - catalogCache.at < CATALOG_TTL_MS) return catalogCache.value;
+  const fetched = await fetchCatalog();
+  const slugs = await assignListingSlugs(fetched.listings, isMockCatalog(fetched.mode));
+  const value: ListingCatalog = {
+    ...fetched,
+    listings: fetched.listings
+      .map(l => ({ ...l, slug: slugs[String(l.id)]?.slug ?? slugify(l.name) }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  };
+  if (value.mode === "live" || value.mode === "mock") catalogCache = { at: Date.now(), value };
+  return value;
+}
+
+export async function getListing(id: number): Promise<Listing | null> {
+  return (await getListings()).listings.find(l => l.id === id) ?? null;
+}
+
+/**
+ * The listing a property page path segment points at: its current slug, or (for links made
+ * before a rename, or before slugs) an old slug, a current or old name, or anything that
+ * slugifies to its slug. Callers redirect whenever `segment !== listing.slug`.
+ */
+export async function findListingByPath(segment: string): Promise<Listing | null> {
+  const { listings, mode } = await getListings();
+  const bySlug = (slug: string) => listings.find(l => l.slug === slug) ?? null;
+  const current = bySlug(segment) ?? listings.find(l => l.name === segment);
+  if (current) return current;
+
+  for (const [id, e] of Object.entries(await getListingSlugs(isMockCatalog(mode)))) {
+    if (e.previousSlugs.includes(segment) || e.previousNames.includes(segment)) {
+      const hit = listings.find(l => String(l.id) === id);
+      if (hit) return hit;
+    }
+  }
+  return bySlug(slugify(segment));
+}
@@ -0,0 +1,200 @@
+// src/lib/notifications.ts
+// Flags newly ingested reviews (low rating, or a flagged topic without positive sentiment)
+// into a file-backed outbox keyed by review ID, then delivers them to every configured
+// channel — right away, or once a day with NOTIFY_MODE=digest.
+//
+//   NOTIFY_RATING_BELOW=6         flag overall ratings below this (0–10; default 6)
+//   NOTIFY_TOPICS=noise,cleanliness
+//   NOTIFY_MODE=instant|digest
+import { readJson, updateJson } from "./json-store";
+import { getNotificationChannels, type DeliveryKind, type NotificationChannel, type NotificationItem } from "./notify-channels";
+import { overallRating } from "./ratings";
+import { analyzeReviews, sentimentLabel, toTopicId } from "./review-analysis";
+import { withDefaults, type Review } from "./review-query";
+
+// ---------- Types ----------
+export type NotificationEntry = NotificationItem & {
+  queuedAt: string;
+  /** channel name → delivered at (ISO) */
+  delivered: Record<string, string>;
+  attempts: number;
+  lastError?: string;
+};
+
+export type Outbox = {
+  entries: Record<string, NotificationEntry>;
+  lastDigestAt: string | null;
+};
+
+export type DeliveryResult = {
+  kind: DeliveryKind | null;
+  channels: string[];
+  sent: number;
+  failed: number;
+  errors: string[];
+};
+
+const FILE = "notifications.json";
+const EMPTY: Outbox = { entries: {}, lastDigestAt: null };
+
+const MAX_ATTEMPTS = 5;
+const DIGEST_EVERY_MS = 24 * 60 * 60 * 1000;
+// Fully delivered entries are kept this long (a re-delivered review ID stays deduped meanwhile)
+const KEEP_DELIVERED_MS = 30 * 24 * 60 * 60 * 1000;
+const EXCERPT_CHARS = 280;
+
+// ---------- Config ----------
+export function notificationConfig(env: NodeJS.ProcessEnv = process.env) {
+  const below = Number(env.NOTIFY_RATING_BELOW);
+  return {
+    ratingBelow: env.NOTIFY_RATING_BELOW && Number.isFinite(below) ? below : 6,
+    topics: (env.NOTIFY_TOPICS ?? "").split(",").map(t => toTopicId(t)).filter((t): t is NonNullable<typeof t> => t !== null),
+    mode: (env.NOTIFY_MODE === "digest" ? "digest" : "instant") as DeliveryKind,
+  };
+}
+
+/** Why a review should be notified about; empty when it shouldn't. */
+export function flagReasons(r: Review, cfg = notificationConfig()): string[] {
+  const reasons: string[] = [];
+  const rating = overallRating(r);
+  if (rating !== null && rating < cfg.ratingBelow) reasons.push(`rating ${Math.round(rating * 10) / 10} below ${cfg.ratingBelow}`);
+
+  // "quiet" is a noise mention too, so topics only count when the text isn't positive
+  if (r.sentiment !== undefined && sentimentLabel(r.sentiment) !== "positive") {
+    const hit = (r.topics ?? []).filter(t => cfg.topics.includes(t));
+    if (hit.length) reasons.push(`topic: ${hit.join(", ")}`);
+  }
+  return reasons;
+}
+
+// ---------- Outbox ----------
+export async function getOutbox(): Promise<Outbox> {
+  return readJson<Outbox>(FILE, EMPTY);
+}
+
+/**
+ * Queue the flagged ones among reviews the ingestion path just inserted. A review
+ * ID is only ever queued once. Skipped for the initial import of an empty store,
+ * which would otherwise flag the whole history.
+ */
+export async function queueNewReviews(rows: Review[], opts: { initialLoad?: boolean } = {}): Promise<number> {
+  if (opts.initialLoad || rows.length === 0) return 0;
+  const cfg = notificationConfig();
+  const flagged = analyzeReviews(withDefaults(rows))
+    .map(r => ({ r, reasons: flagReasons(r, cfg) }))
+    .filter(x => x.reasons.length > 0);
+  if (!flagged.length) return 0;
+
+  let queued = 0;
+  const now = new Date().toISOString();
+  await updateJson<Outbox>(FILE, EMPTY, (box) => {
+    const entries = { ...box.entries };
+    for (const { r, reasons } of flagged) {
+      const id = String(r.id);
+      if (entries[id]) continue;
+      entries[id] = {
+        reviewId: id,
+        listingName: r.listingName,
+        guestName: r.guestName,
+        channel: r.channel ?? "Hostaway",
+        rating: overallRating(r),
+        topics: r.topics ?? [],
+        sentiment: r.sentiment ?? 0,
+        excerpt: r.publicReview.length > EXCERPT_CHARS ? `${r.publicReview.slice(0, EXCERPT_CHARS)}…` : r.publicReview,
+        submittedAt: r.submittedAtIso ?? r.submittedAt,
+        reasons,
+        queuedAt: now,
+        delivered: {},
+        attempts: 0,
+      };
+      queued++;
+    }
+    return { ...box, entries };
+  });
+  return queued;
+}
+
+// ---------- Delivery ----------
+function toItem(e: NotificationEntry): NotificationItem {
+  const { reviewId, listingName, guestName, channel, rating, topics, sentiment, excerpt, submittedAt, reasons } = e;
+  return { reviewId, listingName, guestName, channel, rating, topics, sentiment, excerpt, submittedAt, reasons };
+}
+
+async function deliver(channels: NotificationChannel[], opts: { forceDigest?: boolean }): Promise<DeliveryResult> {
+  const { mode } = notificationConfig();
+  const box = await getOutbox();
+  const result: DeliveryResult = { kind: null, channels: channels.map(c => c.name), sent: 0, failed: 0, errors: [] };
+  if (!channels.length) return result;
+
+  const nowMs = Date.now();
+  if (mode === "digest" && !opts.forceDigest && box.lastDigestAt && nowMs - Date.parse(box.lastDigestAt) < DIGEST_EVERY_MS) {
+    return result; // not due yet
+  }
+  const kind: DeliveryKind = mode === "digest" || opts.forceDigest ? "digest" : "instant";
+  result.kind = kind;
+
+  const deliveredAt = new Date(nowMs).toISOString();
+  const outcome = new Map<string, { delivered: string[]; error?: string }>();
+  for (const ch of channels) {
+    const pending = Object.values(box.entries).filter(e => !e.delivered[ch.name] && e.attempts < MAX_ATTEMPTS);
+    if (!pending.length) continue;
+    try {
+      await ch.send(pending.map(toItem), kind);
+      result.sent += pending.length;
+      for (const e of pending) {
+        const o = outcome.get(e.reviewId) ?? { delivered: [] };
+        o.delivered.push(ch.name);
+        outcome.set(e.reviewId, o);
+      }
+    } catch (err) {
+      const message = `${ch.name}: ${err instanceof Error ? err.message : String(err)}`;
+      result.failed += pending.length;
+      result.errors.push(message);
+      for (const e of pending) {
+        const o = outcome.get(e.reviewId) ?? { delivered: [] };
+        o.error = message;
+        outcome.set(e.reviewId, o);
+      }
+    }
+  }
+
+  await updateJson<Outbox>(FILE, EMPTY, (current) => {
+    const entries: Record<string, NotificationEntry> = {};
+    for (const [id, e] of Object.entries(current.entries)) {
+      const o = outcome.get(id);
+      const next: NotificationEntry = o
+        ? {
+            ...e,
+            delivered: { ...e.delivered, ...Object.fromEntries(o.delivered.map(name => [name, deliveredAt])) },
+            attempts: o.error ? e.attempts + 1 : e.attempts,
+            ...(o.error ? { lastError: o.error } : {}),
+          }
+        : e;
+      const done = channels.every(c => next.delivered[c.name]);
+      if (done && nowMs - Date.parse(next.queuedAt) > KEEP_DELIVERED_MS) continue;
+      entries[id] = next;
+    }
+    return { entries, lastDigestAt: kind === "digest" ? deliveredAt : current.lastDigestAt };
+  });
+
+  return result;
+}
+
+// One delivery run at a time per process, so nothing is sent twice
+let running: Promise<DeliveryResult> | null = null;
+
+export function deliverNotifications(opts: { forceDigest?: boolean } = {}): Promise<DeliveryResult> {
+  if (!running) {
+    running = deliver(getNotificationChannels(), opts).finally(() => { running = null; });
+  }
+  return running;
+}
+
+/** Ingestion hook: queue what's new, then deliver in the background (failures stay queued for the next run). */
+export async function notifyNewReviews(rows: Review[], opts: { initialLoad?: boolean } = {}): Promise<number> {
+  const queued = await queueNewReviews(rows, opts);
+  if (queued > 0 || notificationConfig().mode === "digest") {
+    deliverNotifications().catch(e => console.error("[notifications] delivery failed", e));
+  }
+  return queued;
+}
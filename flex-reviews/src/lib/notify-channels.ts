@@ -0,0 +1,138 @@
+// src/lib/notify-channels.ts
+// Where review notifications go. A channel is enabled by its env vars:
+//   webhook — NOTIFY_WEBHOOK_URL (+ NOTIFY_WEBHOOK_SECRET to sign)
+//   email   — SMTP_HOST + NOTIFY_EMAIL_TO (and/or NOTIFY_EMAIL_ROUTES)
+import { hmacSha256Hex } from "./signing";
+import { sendMail, type SmtpConfig } from "./smtp";
+
+/** What a channel receives per flagged review (a snapshot taken when it was queued). */
+export type NotificationItem = {
+  reviewId: string;
+  listingName: string;
+  guestName: string;
+  channel: string;
+  rating: number | null;
+  topics: string[];
+  sentiment: number;
+  excerpt: string;
+  submittedAt: string;
+  /** why it was flagged, e.g. "rating 4 below 6", "topic: noise" */
+  reasons: string[];
+};
+
+export type DeliveryKind = "instant" | "digest";
+
+export interface NotificationChannel {
+  readonly name: string;
+  send(items: NotificationItem[], kind: DeliveryKind): Promise<void>;
+}
+
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+// ---------- Helpers ----------
+function csv(s: string | undefined): string[] {
+  return (s ?? "").split(",").map(x => x.trim()).filter(Boolean);
+}
+
+function describe(i: NotificationItem): string {
+  return [
+    `${i.listingName} — ${i.guestName} (${i.channel})`,
+    `Rating: ${i.rating ?? "n/a"}/10 · ${i.submittedAt}`,
+    `Flagged: ${i.reasons.join("; ")}`,
+    `"${i.excerpt}"`,
+  ].join("\n");
+}
+
+// ---------- Webhook ----------
+/**
+ * POSTs `{ event, sentAt, reviews }` as JSON. With a secret, receivers verify
+ * `x-flex-signature: sha256=HMAC(secret, "<x-flex-timestamp>.<body>")`.
+ */
+function webhookChannel(url: string, secret: string | undefined): NotificationChannel {
+  return {
+    name: "webhook",
+    async send(items, kind) {
+      const body = JSON.stringify({
+        event: kind === "digest" ? "reviews.digest" : "reviews.flagged",
+        sentAt: new Date().toISOString(),
+        reviews: items,
+      });
+      const ts = String(Math.floor(Date.now() / 1000));
+      const headers: Record<string, string> = { "Content-Type": "application/json", "x-flex-timestamp": ts };
+      if (secret) headers["x-flex-signature"] = `sha256=${hmacSha256Hex(secret, `${ts}.${body}`)}`;
+
+      const res = await fetch(url, { method: "POST", headers, body, signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS) });
+      if (!res.ok) throw new Error(`webhook:${res.status}`);
+    },
+  };
+}
+
+// ---------- Email ----------
+/**
+ * `NOTIFY_EMAIL_ROUTES="Shoreditch=ana@x.com;Waterloo=ben@x.com,cy@x.com"` sends a
+ * listing's reviews to whoever's pattern (case-insensitive substring) matches;
+ * unmatched listings go to NOTIFY_EMAIL_TO.
+ */
+export function recipientsFor(listingName: string, routes: string | undefined, fallback: string[]): string[] {
+  const name = listingName.toLowerCase();
+  const matched = (routes ?? "").split(";").flatMap(route => {
+    const [pattern, emails] = route.split("=");
+    return pattern?.trim() && emails && name.includes(pattern.trim().toLowerCase()) ? csv(emails) : [];
+  });
+  return matched.length ? Array.from(new Set(matched)) : fallback;
+}
+
+function emailChannel(smtp: SmtpConfig, from: string, fallback: string[], routes: string | undefined): NotificationChannel {
+  return {
+    name: "email",
+    async send(items, kind) {
+      // one message per recipient set, so each manager only sees their listings
+      const groups = new Map<string, { to: string[]; items: NotificationItem[] }>();
+      for (const i of items) {
+        const to = recipientsFor(i.listingName, routes, fallback);
+        if (!to.length) continue;
+        const key = to.slice().sort().join(",");
+        if (!groups.has(key)) groups.set(key, { to, items: [] });
+        groups.get(key)!.items.push(i);
+      }
+
+      for (const { to, items: group } of groups.values()) {
+        const subject = kind === "digest"
+          ? `Daily review digest: ${group.length} flagged review${group.length === 1 ? "" : "s"}`
+          : group.length === 1
+            ? `Flagged review at ${group[0].listingName} (${group[0].rating ?? "n/a"}/10)`
+            : `${group.length} flagged reviews`;
+        const text = group.map(describe).join("\n\n---\n\n");
+        await sendMail(smtp, { from, to, subject, text });
+      }
+    },
+  };
+}
+
+// ---------- Registry ----------
+export function getNotificationChannels(env: NodeJS.ProcessEnv = process.env): NotificationChannel[] {
+  const channels: NotificationChannel[] = [];
+
+  if (env.NOTIFY_WEBHOOK_URL) {
+    channels.push(webhookChannel(env.NOTIFY_WEBHOOK_URL, env.NOTIFY_WEBHOOK_SECRET));
+  }
+
+  const to = csv(env.NOTIFY_EMAIL_TO);
+  if (env.SMTP_HOST && (to.length || env.NOTIFY_EMAIL_ROUTES)) {
+    const secure = env.SMTP_SECURE === "true";
+    channels.push(emailChannel(
+      {
+        host: env.SMTP_HOST,
+        port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+        secure,
+        user: env.SMTP_USER || undefined,
+        pass: env.SMTP_PASS || undefined,
+      },
+      env.NOTIFY_EMAIL_FROM || "reviews@localhost",
+      to,
+      env.NOTIFY_EMAIL_ROUTES,
+    ));
+  }
+
+  return channels;
+}
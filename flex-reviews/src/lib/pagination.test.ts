@@ -0,0 +1,55 @@
+import { describe, expect, it } from "vitest";
+import { encodeCursor, paginate, parsePageRequest } from "./pagination";
+
+const params = (q: string) => parsePageRequest(new URLSearchParams(q));
+
+describe("parsePageRequest", () => {
+  it("defaults to everything from the start", () => {
+    expect(params("")).toEqual({ limit: null, offset: 0 });
+  });
+
+  it("reads limit and cursor, capping the limit", () => {
+    expect(params(`limit=20&cursor=${encodeCursor(40)}`)).toEqual({ limit: 20, offset: 40 });
+    expect(params("limit=100000")).toEqual({ limit: 500, offset: 0 });
+  });
+
+  it("accepts a plain offset, but a cursor wins", () => {
+    expect(params("offset=7")).toEqual({ limit: null, offset: 7 });
+    expect(params(`offset=7&cursor=${encodeCursor(3)}`)).toEqual({ limit: null, offset: 3 });
+  });
+
+  it("rejects bad values", () => {
+    expect(params("limit=0")).toEqual({ error: { param: "limit", message: "limit must be a positive integer" } });
+    expect(params("limit=2.5")).toHaveProperty("error");
+    expect(params("offset=-1")).toHaveProperty("error");
+    expect(params("cursor=not-a-cursor")).toEqual({ error: { param: "cursor", message: "cursor is invalid" } });
+    expect(params(`cursor=${Buffer.from('{"o":-4}').toString("base64url")}`)).toHaveProperty("error");
+  });
+});
+
+describe("paginate", () => {
+  const rows = Array.from({ length: 5 }, (_, i) => i);
+
+  it("returns the whole set without a limit", () => {
+    expect(paginate(rows, { limit: null, offset: 0 })).toEqual({ result: rows, total: 5, nextCursor: null });
+  });
+
+  it("walks the pages with the returned cursors", () => {
+    const seen: number[] = [];
+    let req = { limit: 2, offset: 0 };
+    for (;;) {
+      const page = paginate(rows, req);
+      expect(page.total).toBe(5);
+      seen.push(...page.result);
+      if (!page.nextCursor) break;
+      const next = params(`limit=2&cursor=${page.nextCursor}`);
+      if ("error" in next) throw new Error(next.error.message);
+      req = { limit: 2, offset: next.offset };
+    }
+    expect(seen).toEqual(rows);
+  });
+
+  it("returns an empty last page past the end", () => {
+    expect(paginate(rows, { limit: 2, offset: 10 })).toEqual({ result: [], total: 5, nextCursor: null });
+  });
+});
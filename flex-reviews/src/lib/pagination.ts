@@ -0,0 +1,62 @@
+// src/lib/pagination.ts
+// limit + opaque cursor paging over an already filtered/sorted result set.
+import type { QueryError } from "./schema";
+
+export const MAX_PAGE_SIZE = 500;
+
+export type PageRequest = { limit: number | null; offset: number };
+export type Page<T> = { result: T[]; total: number; nextCursor: string | null };
+
+// The cursor is opaque to clients; today it only carries the next offset.
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ o: offset })).toString("base64url");
+}
+function decodeCursor(cursor: string): number | null {
+  try {
+    const { o } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as { o?: unknown };
+    return typeof o === "number" && Number.isInteger(o) && o >= 0 ? o : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Reads `limit` and `cursor` (or a plain `offset`). Returns the rejected param on bad input. */
+export function parsePageRequest(searchParams: URLSearchParams): PageRequest | { error: QueryError } {
+  const limitStr = searchParams.get("limit");
+  const cursor = searchParams.get("cursor");
+  const offsetStr = searchParams.get("offset");
+
+  let limit: number | null = null;
+  if (limitStr) {
+    const n = Number(limitStr);
+    if (!Number.isInteger(n) || n < 1) return { error: { param: "limit", message: "limit must be a positive integer" } };
+    limit = Math.min(n, MAX_PAGE_SIZE);
+  }
+
+  let offset = 0;
+  if (cursor) {
+    const o = decodeCursor(cursor);
+    if (o === null) return { error: { param: "cursor", message: "cursor is invalid" } };
+    offset = o;
+  } else if (offsetStr) {
+    const n = Number(offsetStr);
+    if (!Number.isInteger(n) || n < 0) return { error: { param: "offset", message: "offset must be a non-negative integer" } };
+    offset = n;
+  }
+
+  return { limit, offset };
+}
+
+/** Without a limit the whole set is returned (the original, unpaged behaviour). */
+export function paginate<T>(rows: T[], { limit, offset }: PageRequest): Page<T> {
+  const total = rows.length;
+  if (limit === null) {
+    return { result: rows.slice(offset), total, nextCursor: null };
+  }
+  const end = offset + limit;
+  return {
+    result: rows.slice(offset, end),
+    total,
+    nextCursor: end < total ? encodeCursor(end) : null,
+  };
+}
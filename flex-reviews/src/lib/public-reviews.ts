@@ -0,0 +1,33 @@
+// src/lib/public-reviews.ts
+// What the public property pages show: a listing's approved reviews, newest first, run through
+// the same pipeline as `/api/reviews?listing=…&approvedOnly=true&mock=1`, but on the server.
+import { revalidatePath } from "next/cache";
+import { applyApprovals, getApprovals } from "./approvals";
+import { applyReplies, getReplies } from "./replies";
+import { analyzeReviews } from "./review-analysis";
+import { parseReviewQuery, queryReviews, withDefaults } from "./review-query";
+import { loadAllReviews } from "./review-sources";
+import { checkReviews, type Review } from "./schema";
+
+/**
+ * The pages are ISR-cached (see app/properties), so whatever changes what they show, an
+ * approval or a published/removed host reply, calls this to re-render them on the next visit.
+ */
+export function revalidatePublicPages() {
+  revalidatePath("/properties/[slug]", "layout");
+}
+
+export async function loadPublicReviews(listingName: string): Promise<Review[]> {
+  const query = parseReviewQuery(
+    new URLSearchParams({ listing: listingName, approvedOnly: "true", sort: "date", order: "desc" })
+  );
+  // mock Google reviews, as the public pages have always shown
+  const { rows: raw } = await loadAllReviews({ listing: listingName, mock: true });
+
+  let rows = withDefaults(raw);
+  rows = applyApprovals(rows, await getApprovals());
+  rows = applyReplies(rows, await getReplies());
+  rows = analyzeReviews(rows);
+  rows = queryReviews(rows, query);
+  return checkReviews(rows).rows;
+}
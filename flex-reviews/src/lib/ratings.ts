@@ -0,0 +1,77 @@
+// src/lib/ratings.ts
+// Rating scales and the overall score every average is built from. Normalized ratings
+// are on 0–10; `ratingScale` records what the channel itself used (Google 5, Hostaway 10),
+// and `overallRating` is the unrounded 0–10 score: the source's own rating, or a weighted
+// mean of the category ratings when the source has none.
+// Pure (env only), so the public pages can share the helpers.
+//
+//   RATING_WEIGHTS={"cleanliness":2,"respect_house_rules":0.5}   per-category weights (default 1; 0 leaves a category out)
+import type { CategoryRating, Review } from "./schema";
+
+export const NORMALIZED_SCALE = 10;
+
+export type CategoryWeights = Record<string, number>;
+
+// ---------- Config ----------
+let cachedWeights: { raw: string | undefined; weights: CategoryWeights } | null = null;
+
+/** Weights from RATING_WEIGHTS; malformed JSON or entries are ignored (equal weights). */
+export function ratingWeights(env: NodeJS.ProcessEnv = process.env): CategoryWeights {
+  const raw = env.RATING_WEIGHTS;
+  if (cachedWeights && cachedWeights.raw === raw) return cachedWeights.weights;
+  const weights: CategoryWeights = {};
+  try {
+    const parsed: unknown = raw ? JSON.parse(raw) : {};
+    if (parsed && typeof parsed === "object") {
+      for (const [category, w] of Object.entries(parsed)) {
+        if (typeof w === "number" && Number.isFinite(w) && w >= 0) weights[category.toLowerCase()] = w;
+      }
+    }
+  } catch {
+    console.warn("RATING_WEIGHTS is not valid JSON; using equal weights");
+  }
+  cachedWeights = { raw, weights };
+  return weights;
+}
+
+// ---------- Scores ----------
+/** A score on a `scale`-point scale, onto 0–10 (unrounded). */
+export function toNormalizedScale(value: number, scale: number): number {
+  return scale === NORMALIZED_SCALE ? value : (value * NORMALIZED_SCALE) / scale;
+}
+
+/** Weighted mean of the rated categories; null when none is rated (or all weigh 0). */
+export function derivedRating(categories: CategoryRating[], weights: CategoryWeights = ratingWeights()): number | null {
+  let sum = 0;
+  let total = 0;
+  for (const c of categories) {
+    if (typeof c.rating !== "number" || !Number.isFinite(c.rating)) continue;
+    const w = weights[c.category.toLowerCase()] ?? 1;
+    sum += c.rating * w;
+    total += w;
+  }
+  return total > 0 ? sum / total : null;
+}
+
+/** Fills in `ratingScale`, `overallRating` and `ratingDerived` (see withDefaults in review-query.ts). */
+export function withRatings<T extends Review>(r: T, weights: CategoryWeights = ratingWeights()): T {
+  const own = typeof r.rating === "number" && Number.isFinite(r.rating) ? r.rating : null;
+  const overall = own ?? derivedRating(r.reviewCategory ?? [], weights);
+  return {
+    ...r,
+    ratingScale: r.ratingScale ?? NORMALIZED_SCALE,
+    overallRating: overall,
+    ratingDerived: own === null && overall !== null,
+  };
+}
+
+/** The row's overall 0–10 score, whether or not withRatings has run on it. */
+export function overallRating(r: Review): number | null {
+  return r.overallRating !== undefined ? r.overallRating : withRatings(r).overallRating ?? null;
+}
+
+/** Mean overall score of `rows` on 0–10 (unrounded); null when none is rated. */
+export function averageRating(rows: Review[]): number | null {
+  const vals = rows.map(overallRating).filter((n): n is number => n !== null);
+  return vals.length ? vals.reduce((a, b) => a + b, 0) / vals.length : null;
+}
@@ -0,0 +1,105 @@
+// src/lib/replies.ts
+// Host responses to guest reviews (draft → published) and the editable template list.
+import { readJson, updateJson } from "./json-store";
+import { DEFAULT_TEMPLATES, type ReplyTemplate } from "./reply-templates";
+
+export type ReplyStatus = "draft" | "published";
+
+export type Reply = {
+  reviewId: string;
+  /** working copy; equals `publishedBody` right after publishing */
+  body: string;
+  status: ReplyStatus;
+  updatedAt: string;
+  /** what guests currently see, kept while a newer draft is edited */
+  publishedBody?: string;
+  publishedAt?: string;
+  publishedVia?: string;
+  externalId?: string;
+};
+
+export type ReplyMap = Record<string, Reply>;
+
+/** Longest reply body accepted, for drafts and publishing alike */
+export const MAX_REPLY_LENGTH = 5000;
+
+const FILE = "replies.json";
+const TEMPLATES_FILE = "reply-templates.json";
+
+// ---------- Replies ----------
+export async function getReplies(): Promise<ReplyMap> {
+  return readJson<ReplyMap>(FILE, {});
+}
+
+/** Saving always yields a draft; the last published text stays live until the next publish. */
+export async function saveDraft(reviewId: string, body: string): Promise<Reply> {
+  const m = await updateJson<ReplyMap>(FILE, {}, (all) => {
+    const prev = all[reviewId];
+    return {
+      ...all,
+      [reviewId]: { ...prev, reviewId, body, status: "draft", updatedAt: new Date().toISOString() },
+    };
+  });
+  return m[reviewId];
+}
+
+export async function markPublished(
+  reviewId: string,
+  body: string,
+  via: string,
+  externalId?: string
+): Promise<Reply> {
+  const now = new Date().toISOString();
+  const m = await updateJson<ReplyMap>(FILE, {}, (all) => ({
+    ...all,
+    [reviewId]: {
+      reviewId,
+      body,
+      status: "published",
+      updatedAt: now,
+      publishedBody: body,
+      publishedAt: now,
+      publishedVia: via,
+      externalId,
+    },
+  }));
+  return m[reviewId];
+}
+
+export async function deleteReply(reviewId: string): Promise<void> {
+  await updateJson<ReplyMap>(FILE, {}, (all) => {
+    const rest = { ...all };
+    delete rest[reviewId];
+    return rest;
+  });
+}
+
+/** Public view of a reply: only the published text, never a pending draft. */
+export type HostReply = { body: string; publishedAt: string };
+
+export function applyReplies<T extends { id: number | string }>(
+  rows: T[],
+  replies: ReplyMap
+): (T & { hostReply?: HostReply })[] {
+  return rows.map((r) => {
+    const rep = replies[String(r.id)];
+    if (!rep?.publishedBody || !rep.publishedAt) return r;
+    return { ...r, hostReply: { body: rep.publishedBody, publishedAt: rep.publishedAt } };
+  });
+}
+
+// ---------- Templates ----------
+export async function getTemplates(): Promise<ReplyTemplate[]> {
+  return readJson<ReplyTemplate[]>(TEMPLATES_FILE, DEFAULT_TEMPLATES);
+}
+
+export async function saveTemplate(t: ReplyTemplate): Promise<ReplyTemplate[]> {
+  return updateJson<ReplyTemplate[]>(TEMPLATES_FILE, DEFAULT_TEMPLATES, (list) => {
+    const i = list.findIndex(x => x.id === t.id);
+    return i === -1 ? [...list, t] : list.map(x => (x.id === t.id ? t : x));
+  });
+}
+
+export async function deleteTemplate(id: string): Promise<ReplyTemplate[]> {
+  return updateJson<ReplyTemplate[]>(TEMPLATES_FILE, DEFAULT_TEMPLATES, (list) => list.filter(x => x.id !== id));
+}
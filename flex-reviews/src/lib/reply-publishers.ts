@@ -0,0 +1,42 @@
+// src/lib/reply-publishers.ts
+// Where a published host reply goes. Pick with REPLY_PUBLISHER=hostaway|mock
+// (default: hostaway when live credentials are configured, else mock).
+import { hostawayRequest, USE_LIVE } from "./hostaway";
+import type { Review } from "./review-query";
+
+export interface ReplyPublisher {
+  readonly name: string;
+  publish(review: Review, body: string): Promise<{ externalId?: string }>;
+}
+
+/** Posts the response onto the Hostaway review (idempotent PUT, so retries are safe). */
+const hostawayPublisher: ReplyPublisher = {
+  name: "hostaway",
+  async publish(review, body) {
+    await hostawayRequest(`/v1/reviews/${encodeURIComponent(String(review.id))}`, {
+      method: "PUT",
+      body: { hostResponse: body },
+    });
+    return { externalId: String(review.id) };
+  },
+};
+
+/** Dev stand-in: logs instead of calling out. */
+const mockPublisher: ReplyPublisher = {
+  name: "mock",
+  async publish(review, body) {
+    console.info(`[mock reply] review ${review.id} (${review.listingName}): ${body}`);
+    return { externalId: `mock-${review.id}-${Date.now()}` };
+  },
+};
+
+const PUBLISHERS: Record<string, ReplyPublisher> = {
+  hostaway: hostawayPublisher,
+  mock: mockPublisher,
+};
+
+export function getReplyPublisher(): ReplyPublisher {
+  const chosen = process.env.REPLY_PUBLISHER;
+  if (chosen && PUBLISHERS[chosen]) return PUBLISHERS[chosen];
+  return USE_LIVE ? hostawayPublisher : mockPublisher;
+}
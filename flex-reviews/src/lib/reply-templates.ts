@@ -0,0 +1,40 @@
+// src/lib/reply-templates.ts
+// Reply templates and placeholder rendering. No server imports: the dashboard uses this too.
+
+export type ReplyTemplate = { id: string; name: string; body: string };
+
+/** Placeholders a template may use, e.g. "Thanks {firstName}!" */
+export const TEMPLATE_PLACEHOLDERS = ["guestName", "firstName", "listingName", "channel"] as const;
+type Placeholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+export const DEFAULT_TEMPLATES: ReplyTemplate[] = [
+  {
+    id: "thanks",
+    name: "Thank you",
+    body: "Hi {firstName}, thank you for staying at {listingName} and for taking the time to leave a review. We hope to welcome you back soon!",
+  },
+  {
+    id: "apology",
+    name: "Sorry it wasn't perfect",
+    body: "Hi {firstName}, thank you for your feedback on {listingName}. We're sorry parts of your stay fell short — we've shared your comments with the team so we can put things right for future guests.",
+  },
+  {
+    id: "check-in",
+    name: "Check-in follow-up",
+    body: "Hi {firstName}, thanks for staying at {listingName}. We're sorry check-in wasn't as smooth as it should have been; we're updating our arrival instructions based on your feedback.",
+  },
+];
+
+export function templateVars(r: { guestName: string; listingName: string; channel?: string }): Record<Placeholder, string> {
+  return {
+    guestName: r.guestName,
+    firstName: r.guestName.split(/\s+/)[0] || r.guestName,
+    listingName: r.listingName,
+    channel: r.channel ?? "",
+  };
+}
+
+/** Replaces known `{placeholder}`s; unknown ones are left as typed so they stay visible. */
+export function renderTemplate(body: string, vars: Record<string, string>): string {
+  return body.replace(/\{(\w+)\}/g, (m, key: string) => (key in vars ? vars[key] : m));
+}
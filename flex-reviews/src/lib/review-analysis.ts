@@ -0,0 +1,139 @@
+// src/lib/review-analysis.ts
+// Offline topic + sentiment tagging of review text, from small hand-written lexicons.
+// The vocabulary follows what guests actually complain/rave about (see the phrases in
+// scripts/generate-mock.js): noise, check-in, cleanliness, communication, location, …
+// Pure (no server imports) so the dashboard can share the topic list.
+import { tokenize } from "./search";
+
+// ---------- Topics ----------
+export const TOPICS = [
+  { id: "noise", label: "Noise" },
+  { id: "check_in", label: "Check-in" },
+  { id: "cleanliness", label: "Cleanliness" },
+  { id: "communication", label: "Communication" },
+  { id: "location", label: "Location" },
+  { id: "comfort", label: "Comfort" },
+  { id: "amenities", label: "Amenities" },
+  { id: "accuracy", label: "Accuracy" },
+  { id: "value", label: "Value" },
+] as const;
+
+export type TopicId = (typeof TOPICS)[number]["id"];
+
+/** Words/phrases per topic; matched on stems, so "cleaned" hits "clean". */
+const TOPIC_LEXICON: Record<TopicId, string[]> = {
+  noise: ["noise", "noisy", "loud", "quiet", "peaceful", "traffic", "soundproof", "thin walls", "party", "neighbours", "neighbors"],
+  check_in: ["check in", "checkin", "check out", "checkout", "arrival", "key", "keys", "lockbox", "key box", "instructions", "directions"],
+  cleanliness: ["clean", "cleanliness", "spotless", "spotlessly", "immaculate", "tidy", "dirty", "dust", "dusty", "stain", "smell", "mould", "mold", "hygiene"],
+  communication: ["communication", "communicative", "responsive", "response", "reply", "replied", "host", "hosts", "helpful", "contact", "message"],
+  location: ["location", "located", "area", "neighbourhood", "neighborhood", "central", "heart of", "station", "tube", "transport", "walk", "view", "views"],
+  comfort: ["comfortable", "comfort", "cosy", "cozy", "bed", "beds", "pillow", "sofa", "spacious", "cramped", "heating", "cold", "shower"],
+  amenities: ["wifi", "wi fi", "internet", "kitchen", "towels", "tv", "parking", "washing machine", "air conditioning", "aircon", "desk", "workspace"],
+  accuracy: ["as described", "as advertised", "advertised", "as expected", "photos", "pictures", "accurate", "misleading"],
+  value: ["price", "value", "expensive", "cheap", "overpriced", "worth", "money", "cost", "fees"],
+};
+
+// ---------- Sentiment lexicon ----------
+/** Polarity per word/phrase; roughly ±1 for mild, ±2 for strong. */
+const POLARITY: Record<string, number> = {
+  wonderful: 2, excellent: 2, fantastic: 2, amazing: 2, stunning: 2, perfect: 2, love: 2, loved: 2,
+  spotless: 2, spotlessly: 2, immaculate: 2, great: 1, good: 1, nice: 1, lovely: 1, easy: 1,
+  clean: 1, comfortable: 1, quiet: 1, peaceful: 1, modern: 1, spacious: 1, responsive: 1,
+  helpful: 1, friendly: 1, convenient: 1, cosy: 1, recommend: 1, return: 1, decent: 0.5, fine: 0.5,
+  issue: -1, issues: -1, problem: -1, problems: -1, noise: -1, noisy: -1, loud: -1,
+  confusing: -1, confused: -1, dirty: -2, smell: -1, broken: -1, cramped: -1, cold: -1,
+  poor: -1, bad: -1, terrible: -2, awful: -2, disappointing: -2, disappointed: -2, misleading: -2,
+  "could be improved": -1, "could improve": -1, "could be better": -1, "could be clearer": -1,
+  "longer than expected": -1,
+};
+const NEGATORS = new Set(["not", "no", "never", "t", "without", "hardly"]); // "wasn't" tokenizes to wasn + t
+const INTENSIFIERS = new Set(["very", "really", "super", "highly", "extremely", "so", "definitely"]);
+const DOWNTONERS = new Set(["slightly", "bit", "minor", "little", "somewhat"]);
+const NEGATION_WINDOW = 3;
+
+// ---------- Matching ----------
+type Entry<T> = { stems: string[]; value: T };
+
+function compile<T>(phrases: [string, T][]): Entry<T>[] {
+  // longest first, so "could be improved" wins over a shorter overlap
+  return phrases
+    .map(([p, value]) => ({ stems: tokenize(p).map(t => t.stem), value }))
+    .filter(e => e.stems.length > 0)
+    .sort((a, b) => b.stems.length - a.stems.length);
+}
+
+const TOPIC_ENTRIES = compile(
+  (Object.entries(TOPIC_LEXICON) as [TopicId, string[]][]).flatMap(([id, words]) => words.map(w => [w, id] as [string, TopicId]))
+);
+const POLARITY_ENTRIES = compile(Object.entries(POLARITY));
+
+function matchAt<T>(stems: string[], i: number, entry: Entry<T>): boolean {
+  return entry.stems.every((s, k) => stems[i + k] === s);
+}
+
+// ---------- Analysis ----------
+export type ReviewAnalysis = {
+  topics: TopicId[];
+  /** -1 (very negative) … 1 (very positive), 0 when nothing in the lexicon matched */
+  sentiment: number;
+};
+
+export function analyzeText(text: string): ReviewAnalysis {
+  const tokens = tokenize(text);
+  const stems = tokens.map(t => t.stem);
+
+  const topics = new Set<TopicId>();
+  for (let i = 0; i < stems.length; i++) {
+    for (const e of TOPIC_ENTRIES) if (matchAt(stems, i, e)) topics.add(e.value);
+  }
+
+  let sum = 0;
+  for (let i = 0; i < stems.length; ) {
+    const hit = POLARITY_ENTRIES.find(e => matchAt(stems, i, e));
+    if (!hit) { i++; continue; }
+
+    let weight = hit.value;
+    const before = tokens.slice(Math.max(0, i - NEGATION_WINDOW), i).map(t => t.raw);
+    if (INTENSIFIERS.has(before[before.length - 1])) weight *= 1.5;
+    if (before.some(w => DOWNTONERS.has(w))) weight *= 0.5;
+    if (before.some(w => NEGATORS.has(w))) weight = -weight; // "not as quiet", "no issues"
+    sum += weight;
+    i += hit.stems.length;
+  }
+
+  // squash into (-1, 1): one mild word ≈ ±0.45, a couple of strong ones ≈ ±0.9
+  const sentiment = Math.round((sum / Math.sqrt(sum * sum + 4)) * 100) / 100;
+  return { topics: TOPICS.map(t => t.id).filter(id => topics.has(id)), sentiment };
+}
+
+export type SentimentLabel = "positive" | "neutral" | "negative";
+
+export function sentimentLabel(score: number): SentimentLabel {
+  if (score >= 0.2) return "positive";
+  if (score <= -0.2) return "negative";
+  return "neutral";
+}
+
+/** Normalizes user input like "Check-in" or "check in" to a topic id, or null if unknown. */
+export function toTopicId(s: string): TopicId | null {
+  const id = s.trim().toLowerCase().replace(/[\s-]+/g, "_");
+  return TOPICS.some(t => t.id === id) ? (id as TopicId) : null;
+}
+
+// Review texts repeat a lot (mock data, re-fetched pages), so remember recent results
+const cache = new Map<string, ReviewAnalysis>();
+const CACHE_LIMIT = 5000;
+
+/** Adds `topics` and `sentiment` to each row (server pipeline step). */
+export function analyzeReviews<T extends { publicReview: string }>(rows: T[]): (T & ReviewAnalysis)[] {
+  return rows.map(r => {
+    const text = r.publicReview ?? "";
+    let a = cache.get(text);
+    if (!a) {
+      if (cache.size >= CACHE_LIMIT) cache.clear();
+      a = analyzeText(text);
+      cache.set(text, a);
+    }
+    return { ...r, topics: a.topics, sentiment: a.sentiment };
+  });
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from "vitest";
+import { exportColumns, exportStream } from "./review-export";
+import type { Review } from "./review-query";
+
+function review(id: number, overrides: Partial<Review> = {}): Review {
+  return {
+    id,
+    rating: 9,
+    publicReview: "Lovely stay",
+    reviewCategory: [],
+    submittedAt: "2025-03-01 10:00:00",
+    guestName: "Guest",
+    listingName: "Shoreditch Loft",
+    ...overrides,
+  };
+}
+
+async function read(stream: ReadableStream<Uint8Array>): Promise<string> {
+  // keep the BOM: Response#text() would strip it
+  return new TextDecoder("utf-8", { ignoreBOM: true }).decode(await new Response(stream).arrayBuffer());
+}
+
+describe("exportColumns", () => {
+  it("adds one sorted column per category, prefixing names that clash with base columns", () => {
+    const keys = exportColumns([
+      review(1, { reviewCategory: [{ category: "value", rating: 8 }, { category: "rating", rating: 7 }] }),
+      review(2, { reviewCategory: [{ category: "cleanliness", rating: 10 }] }),
+    ]).map(c => c.key);
+    expect(keys.slice(-3)).toEqual(["cleanliness", "category:rating", "value"]);
+  });
+});
+
+describe("exportStream", () => {
+  it("writes CSV with a BOM, quoting and formula-safe text", async () => {
+    const csv = await read(exportStream([
+      review(1, { publicReview: 'Said "wow", twice\nthen left', guestName: "=HYPERLINK()" }),
+    ], "csv"));
+    const [header, row] = csv.split("\r\n");
+    expect(header.startsWith("\ufeffid,listingName,guestName,")).toBe(true);
+    expect(row).toContain("1,Shoreditch Loft,'=HYPERLINK(),");
+    expect(csv).toContain('"Said ""wow"", twice\nthen left"');
+  });
+
+  it("writes one NDJSON object per row with every column", async () => {
+    const rows = Array.from({ length: 501 }, (_, i) => review(i, { reviewCategory: [{ category: "cleanliness", rating: i % 10 }] }));
+    const lines = (await read(exportStream(rows, "ndjson"))).trim().split("\n").map(l => JSON.parse(l));
+    expect(lines).toHaveLength(501);
+    expect(lines[500]).toMatchObject({ id: "500", rating: 9, approved: false, cleanliness: 0, hostReply: "" });
+  });
+});
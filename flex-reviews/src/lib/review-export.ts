@@ -0,0 +1,112 @@
+// src/lib/review-export.ts
+// Flat export rows (one column per review category) serialized as CSV, NDJSON or XLSX.
+// Output is produced batch by batch as the response is read, never as one big string.
+import type { Review } from "./review-query";
+import { xlsxChunks, type Cell } from "./xlsx";
+
+// ---------- Types ----------
+export type ExportFormat = "csv" | "ndjson" | "xlsx";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: "text/csv; charset=utf-8", extension: "csv" },
+  ndjson: { contentType: "application/x-ndjson; charset=utf-8", extension: "ndjson" },
+  xlsx: { contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet", extension: "xlsx" },
+};
+
+export type ExportColumn = { key: string; get: (r: Review) => Cell };
+
+// Rows serialized per chunk
+const BATCH_ROWS = 500;
+
+// ---------- Columns ----------
+const BASE_COLUMNS: ExportColumn[] = [
+  { key: "id", get: r => String(r.id) },
+  { key: "listingName", get: r => r.listingName },
+  { key: "guestName", get: r => r.guestName },
+  { key: "channel", get: r => r.channel ?? "" },
+  { key: "type", get: r => r.type ?? "" },
+  { key: "status", get: r => r.status ?? "" },
+  { key: "submittedAt", get: r => r.submittedAtIso ?? r.submittedAt },
+  { key: "rating", get: r => r.rating },
+  { key: "ratingScale", get: r => r.ratingScale ?? null },
+  { key: "overallRating", get: r => (r.overallRating == null ? null : Math.round(r.overallRating * 100) / 100) },
+  { key: "approved", get: r => r.approved ?? false },
+  { key: "topics", get: r => (r.topics ?? []).join(",") },
+  { key: "sentiment", get: r => r.sentiment ?? null },
+  { key: "publicReview", get: r => r.publicReview },
+  { key: "hostReply", get: r => r.hostReply?.body ?? "" },
+  { key: "hostReplyPublishedAt", get: r => r.hostReply?.publishedAt ?? "" },
+  { key: "sourceUrl", get: r => r.sourceUrl ?? "" },
+];
+
+/** Base columns, then one per category seen in `rows` (sorted, so exports line up). */
+export function exportColumns(rows: Review[]): ExportColumn[] {
+  const categories = new Set<string>();
+  for (const r of rows) for (const c of r.reviewCategory) categories.add(c.category);
+  const taken = new Set(BASE_COLUMNS.map(c => c.key));
+
+  return [
+    ...BASE_COLUMNS,
+    ...Array.from(categories).sort().map(category => ({
+      key: taken.has(category) ? `category:${category}` : category,
+      get: (r: Review) => r.reviewCategory.find(c => c.category === category)?.rating ?? null,
+    })),
+  ];
+}
+
+function* batches(rows: Review[], columns: ExportColumn[]): Generator<Cell[][]> {
+  for (let i = 0; i < rows.length; i += BATCH_ROWS) {
+    yield rows.slice(i, i + BATCH_ROWS).map(r => columns.map(c => c.get(r)));
+  }
+}
+
+// ---------- Serializers ----------
+function csvField(v: Cell): string {
+  if (v === null || v === undefined) return "";
+  let s = String(v);
+  // spreadsheet formula injection: text starting with = + - @ is shown as text
+  if (typeof v === "string" && /^[=+\-@\t\r]/.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+function* csvChunks(rows: Review[], columns: ExportColumn[]): Generator<string> {
+  // BOM so Excel opens the file as UTF-8
+  yield "\ufeff" + columns.map(c => csvField(c.key)).join(",") + "\r\n";
+  for (const batch of batches(rows, columns)) {
+    yield batch.map(cells => cells.map(csvField).join(",") + "\r\n").join("");
+  }
+}
+
+function* ndjsonChunks(rows: Review[], columns: ExportColumn[]): Generator<string> {
+  for (const batch of batches(rows, columns)) {
+    yield batch
+      .map(cells => JSON.stringify(Object.fromEntries(columns.map((c, i) => [c.key, cells[i] ?? null]))) + "\n")
+      .join("");
+  }
+}
+
+// ---------- Stream ----------
+/** Pull-based: the next batch is only serialized once the consumer asks for more. */
+export function exportStream(rows: Review[], format: ExportFormat): ReadableStream<Uint8Array> {
+  const columns = exportColumns(rows);
+  const chunks: Iterator<string | Uint8Array> =
+    format === "csv" ? csvChunks(rows, columns)
+    : format === "ndjson" ? ndjsonChunks(rows, columns)
+    : xlsxChunks("Reviews", columns.map(c => c.key), batches(rows, columns));
+  const encoder = new TextEncoder();
+
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      const { value, done } = chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(typeof value === "string" ? encoder.encode(value) : value);
+    },
+    cancel() {
+      chunks.return?.();
+    },
+  });
+}
+
+export function exportFilename(format: ExportFormat, now = new Date()): string {
+  return `reviews-${now.toISOString().slice(0, 10)}.${EXPORT_FORMATS[format].extension}`;
+}
@@ -0,0 +1,78 @@
+// src/lib/review-imports.ts
+// Reviews brought in from CSV exports (data/store/imported-reviews.jsonl), kept apart from
+// the Hostaway store so a sync never touches them and a channel's import can be removed whole.
+import { readJsonLines, serialize, writeJsonLines } from "./json-store";
+import type { Review } from "./review-query";
+import type { UpsertResult } from "./review-store";
+import type { ReviewSource } from "./source-adapter";
+
+const FILE = "imported-reviews.jsonl";
+
+export type ImportSummary = { channel: string; count: number; lastImportAt: string | null };
+
+export async function getImportedReviews(): Promise<Review[]> {
+  return readJsonLines<Review>(FILE);
+}
+
+// A re-import of the same row only counts as a change when something besides the import time differs
+function sameReview(a: Review, b: Review): boolean {
+  return JSON.stringify({ ...a, importedAt: null }) === JSON.stringify({ ...b, importedAt: null });
+}
+
+/** Insert or replace by review ID (IDs are channel-scoped, see csv-import.ts). */
+export function saveImportedReviews(incoming: Review[]): Promise<UpsertResult> {
+  return serialize(FILE, async () => {
+    const rows = await readJsonLines<Review>(FILE);
+    const byId = new Map(rows.map(r => [String(r.id), r]));
+    const counts: UpsertResult = { inserted: 0, updated: 0, unchanged: 0 };
+
+    for (const r of incoming) {
+      const existing = byId.get(String(r.id));
+      if (!existing) counts.inserted++;
+      else if (sameReview(existing, r)) { counts.unchanged++; continue; }
+      else counts.updated++;
+      byId.set(String(r.id), r);
+    }
+    if (counts.inserted || counts.updated) await writeJsonLines(FILE, Array.from(byId.values()));
+    return counts;
+  });
+}
+
+/** Drops every imported review of `channel` (case-insensitive); returns how many went. */
+export function deleteImportedChannel(channel: string): Promise<number> {
+  return serialize(FILE, async () => {
+    const rows = await readJsonLines<Review>(FILE);
+    const keep = rows.filter(r => (r.channel ?? "").toLowerCase() !== channel.toLowerCase());
+    if (keep.length !== rows.length) await writeJsonLines(FILE, keep);
+    return rows.length - keep.length;
+  });
+}
+
+export async function importSummary(): Promise<ImportSummary[]> {
+  const byChannel = new Map<string, ImportSummary>();
+  for (const r of await getImportedReviews()) {
+    const channel = r.channel ?? "CSV";
+    const s = byChannel.get(channel) ?? { channel, count: 0, lastImportAt: null };
+    s.count++;
+    if (r.importedAt && (!s.lastImportAt || r.importedAt > s.lastImportAt)) s.lastImportAt = r.importedAt;
+    byChannel.set(channel, s);
+  }
+  return Array.from(byChannel.values()).sort((a, b) => a.channel.localeCompare(b.channel));
+}
+
+// ---------- ReviewSource adapter ----------
+/** Rows are normalized by csv-import.ts at upload time and carry their channel. */
+export const importSource: ReviewSource<Review> = {
+  name: "import",
+  channel: "CSV import",
+  capabilities: { perListing: false, mock: false, replies: false, stored: true },
+  cacheTtlMs: 0,
+  async fetch() {
+    return { items: await getImportedReviews(), mode: "store", errors: [] };
+  },
+  normalize: (raw) => raw,
+  async health() {
+    const channels = await importSummary();
+    return { status: "ok", detail: channels.length ? channels.map(c => `${c.channel}: ${c.count}`).join(", ") : "nothing imported" };
+  },
+};
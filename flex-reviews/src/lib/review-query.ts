@@ -0,0 +1,232 @@
+// src/lib/review-query.ts
+// Shared normalized review shape + the filter/sort pipeline behind the review APIs.
+import { compareNumber, parseCondition, parseFilterQuery, type Condition } from "./filter-query";
+import { overallRating, ratingWeights, withRatings } from "./ratings";
+import { toTopicId, type TopicId } from "./review-analysis";
+import { parseParams, ReviewQueryParamsSchema, type CategoryRating, type QueryError, type Review, type ReviewQueryParams } from "./schema";
+import { buildIndex, parseSearchQuery, search } from "./search";
+
+// ---------- Types ----------
+// The review shape itself is the zod contract in schema.ts; re-exported for the pipeline's users.
+export type { CategoryRating, QueryError, Review };
+
+export type ReviewQuery = {
+  listing: string | null;
+  /** case/accent-insensitive substring match (from `listing:` in a filter expression) */
+  listingLike: string | null;
+  q: string | null;
+  category: string | null;
+  min: number | null;
+  types: string[] | null;
+  channels: string[] | null;
+  /** any-of match on tagged topics */
+  topics: TopicId[] | null;
+  approvedOnly: boolean;
+  fromMs: number | null;
+  toMs: number | null;
+  sort: string;  // "date" | "rating" | "relevance" | ""
+  order: string; // "asc" | "desc"
+  /** numeric comparisons on `rating` or any review category, all must hold */
+  conditions: Condition[];
+  errors: QueryError[];
+};
+
+// ---------- Utilities ----------
+export function toEpochMs(r: Review): number {
+  if (typeof r.submittedAtTs === "number" && Number.isFinite(r.submittedAtTs)) return r.submittedAtTs;
+  if (r.submittedAtIso) {
+    const t = Date.parse(r.submittedAtIso);
+    if (!Number.isNaN(t)) return t;
+  }
+  const isoGuess = r.submittedAt.includes(" ") ? r.submittedAt.replace(" ", "T") + "Z" : r.submittedAt;
+  const t2 = Date.parse(isoGuess);
+  return Number.isNaN(t2) ? 0 : t2;
+}
+function parseCsvLower(s: string | null | undefined): string[] | null {
+  if (!s) return null;
+  return s.split(",").map(x => x.trim().toLowerCase()).filter(Boolean);
+}
+function foldCase(s: string): string {
+  return s.normalize("NFD").replace(/\p{M}+/gu, "").toLowerCase();
+}
+function icaseEq(a: string, b: string) {
+  return a.localeCompare(b, undefined, { sensitivity: "accent" }) === 0;
+}
+
+// ---------- Query parsing ----------
+/**
+ * Plain params first; a `filter` expression (see filter-query.ts) fills in
+ * whatever they leave unset and adds its comparisons, as do `where` params.
+ * Its `sort:`/`order:` are the exception and override the plain params.
+ * Plain params are checked against ReviewQueryParamsSchema; callers should reject the
+ * request when `errors` is non-empty.
+ */
+export function parseReviewQuery(searchParams: URLSearchParams): ReviewQuery {
+  const { data, errors } = parseParams(ReviewQueryParamsSchema, searchParams);
+  const p: ReviewQueryParams = data ?? {};
+  const query: ReviewQuery = {
+    listing: p.listing ?? null,
+    listingLike: null,
+    q: p.q ?? null,
+    category: p.category ?? null,
+    min: p.min ?? null,
+    types: parseCsvLower(p.type),
+    channels: parseCsvLower(p.channel),
+    topics: null,
+    approvedOnly: p.approvedOnly === "true",
+    fromMs: p.from ? Date.parse(p.from) : null,
+    toMs: p.to ? Date.parse(p.to) : null,
+    sort: p.sort ?? "",
+    order: p.order ?? "desc",
+    conditions: [],
+    errors,
+  };
+
+  for (const w of searchParams.getAll("where")) {
+    const cond = parseCondition(w);
+    if (cond) query.conditions.push(cond);
+    else query.errors.push({ param: "where", message: `Expected <field><op><number>, got "${w}"` });
+  }
+
+  const topicNames = parseCsvLower(p.topic);
+  if (topicNames) {
+    query.topics = [];
+    for (const name of topicNames) {
+      const id = toTopicId(name);
+      if (id) query.topics.push(id);
+      else query.errors.push({ param: "topic", message: `Unknown topic "${name}"` });
+    }
+  }
+
+  const expr = searchParams.get("filter");
+  if (expr) {
+    const { filter, errors } = parseFilterQuery(expr);
+    query.errors.push(...errors.map(e => ({ param: "filter", ...e })));
+    query.q = [query.q, filter.q].filter(Boolean).join(" ") || null;
+    query.listingLike = filter.listingLike;
+    query.channels ??= filter.channels;
+    query.types ??= filter.types;
+    query.topics ??= filter.topics;
+    query.category ??= filter.category;
+    query.min ??= filter.min;
+    query.fromMs ??= filter.fromMs;
+    query.toMs ??= filter.toMs;
+    query.approvedOnly ||= filter.approvedOnly;
+    if (filter.sort) query.sort = filter.sort;
+    if (filter.order) query.order = filter.order;
+    query.conditions.push(...filter.conditions);
+  }
+
+  return query;
+}
+
+// ---------- Pipeline ----------
+/** Defaults applied before filtering so channel/type filters see a value, plus the derived overall score. */
+export function withDefaults(rows: Review[]): Review[] {
+  const weights = ratingWeights();
+  return rows.map(r => withRatings({
+    ...r,
+    channel: r.channel ?? "Hostaway",
+    type: r.type ?? "guest-to-host",
+    rating: r.rating ?? null,
+    submittedAtIso:
+      r.submittedAtIso ??
+      (r.submittedAt ? r.submittedAt.replace(" ", "T") + "Z" : undefined),
+  }, weights));
+}
+
+export function filterReviews(input: Review[], query: ReviewQuery): Review[] {
+  const { listing, listingLike, q, category, min, types, channels, topics, approvedOnly, fromMs, toMs, conditions } = query;
+  let rows = input;
+
+  if (listing) {
+    rows = rows.filter((r) => icaseEq(r.listingName, listing));
+  }
+
+  if (listingLike) {
+    const needle = foldCase(listingLike);
+    rows = rows.filter((r) => foldCase(r.listingName).includes(needle));
+  }
+
+  if (q) {
+    const clauses = parseSearchQuery(q);
+    if (clauses.length > 0) {
+      const hits = search(buildIndex(rows), clauses);
+      rows = rows.flatMap((r, i) => {
+        const hit = hits.get(i);
+        return hit ? [{ ...r, score: hit.score, highlights: hit.highlights }] : [];
+      });
+    }
+  }
+
+  if (types && types.length > 0) {
+    rows = rows.filter((r) => types.includes((r.type ?? "").toLowerCase()));
+  }
+
+  if (channels && channels.length > 0) {
+    const allow = new Set(channels.map(c => c.toLowerCase()));
+    rows = rows.filter((r) => allow.has((r.channel ?? "Hostaway").toLowerCase()));
+  }
+
+  if (topics && topics.length > 0) {
+    rows = rows.filter((r) => r.topics?.some((t) => topics.includes(t)));
+  }
+
+  if (category) {
+    rows = rows.filter((r) => {
+      const hit = r.reviewCategory?.find((c) => c.category === category);
+      if (!hit) return false;
+      if (min === null) return hit.rating !== null;
+      return typeof hit.rating === "number" && hit.rating >= min;
+    });
+  }
+
+  if (conditions.length > 0) {
+    rows = rows.filter((r) => conditions.every((c) => {
+      const actual = c.field === "rating"
+        ? overallRating(r)
+        : r.reviewCategory?.find((rc) => rc.category.toLowerCase() === c.field)?.rating;
+      return typeof actual === "number" && compareNumber(actual, c.op, c.value);
+    }));
+  }
+
+  if (approvedOnly) {
+    rows = rows.filter((r) => r.approved === true);
+  }
+
+  return rows.filter((r) => {
+    const t = toEpochMs(r);
+    if (fromMs !== null && !Number.isNaN(fromMs) && t < fromMs) return false;
+    if (toMs !== null && !Number.isNaN(toMs) && t > toMs) return false;
+    return true;
+  });
+}
+
+/** `order` applies to the key only: rows without one (unrated, undated) stay last either way. */
+export function sortReviews(input: Review[], sort: string, order: string): Review[] {
+  const rows = input.slice();
+  const dir = order === "desc" ? -1 : 1;
+  const by = (key: (r: Review) => number | null) => (a: Review, b: Review) => {
+    const A = key(a);
+    const B = key(b);
+    if (A == null && B == null) return 0;
+    if (A == null) return 1;
+    if (B == null) return -1;
+    return dir * (A - B);
+  };
+
+  if (sort === "date") {
+    rows.sort(by(r => toEpochMs(r) || null));
+  } else if (sort === "relevance") {
+    rows.sort(by(r => r.score ?? 0));
+  } else if (sort === "rating") {
+    rows.sort(by(r => overallRating(r)));
+  } else if (order === "desc") {
+    rows.reverse(); // no sort key: the source's own order, flipped
+  }
+  return rows;
+}
+
+export function queryReviews(rows: Review[], query: ReviewQuery): Review[] {
+  return sortReviews(filterReviews(rows, query), query.sort, query.order);
+}
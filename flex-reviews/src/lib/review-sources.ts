@@ -0,0 +1,158 @@
+// src/lib/review-sources.ts
+// The ReviewSource registry, and the merged loader behind /api/reviews: every registered
+// source loaded side by side, each with a status report, so a failing source degrades
+// the response instead of failing it.
+import { googleSource } from "./google";
+import { hostawaySource } from "./hostaway-sync";
+import { importSource } from "./review-imports";
+import type { Review } from "./review-query";
+import { readReviews, type ReviewSource, type SourceCapabilities, type SourceHealth } from "./source-adapter";
+
+// ---------- Types ----------
+export type SourceReport = {
+  name: string;
+  status: "ok" | "partial" | "error" | "skipped";
+  count: number;
+  mode?: string;
+  errors?: string[];
+};
+
+export type LoadSourcesOptions = {
+  /** fetch per-listing sources for this listing only (otherwise for every listing seen) */
+  listing?: string | null;
+  /** lower-cased channel filter; live sources whose channel it excludes are skipped */
+  channels?: string[] | null;
+  /** serve mock-capable live sources (Google) from their bundled mock files */
+  mock?: boolean;
+};
+
+// ---------- Registry ----------
+// Adding a channel = one adapter here. Per-listing sources run once the others have supplied
+// listing names; reports and rows keep this order.
+const SOURCES: ReviewSource[] = [hostawaySource, googleSource, importSource];
+
+export function getReviewSources(): ReviewSource[] {
+  return SOURCES;
+}
+
+export function getReviewSource(name: string): ReviewSource | undefined {
+  return SOURCES.find(s => s.name === name);
+}
+
+export type SourceInfo = { name: string; channel: string; capabilities: SourceCapabilities; health: SourceHealth };
+
+export async function describeSources(): Promise<SourceInfo[]> {
+  return Promise.all(SOURCES.map(async (s) => ({
+    name: s.name,
+    channel: s.channel,
+    capabilities: s.capabilities,
+    health: await s.health().catch((e): SourceHealth => ({ status: "down", detail: errorMessage(e) })),
+  })));
+}
+
+// ---------- Helpers ----------
+// Cap parallel upstream calls when fanning out across every listing
+const PER_LISTING_CONCURRENCY = 4;
+
+async function settleWithLimit<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>
+): Promise<PromiseSettledResult<R>[]> {
+  const out: PromiseSettledResult<R>[] = new Array(items.length);
+  let next = 0;
+  async function worker() {
+    while (next < items.length) {
+      const i = next++;
+      try { out[i] = { status: "fulfilled", value: await fn(items[i]) }; }
+      catch (reason) { out[i] = { status: "rejected", reason }; }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return out;
+}
+
+function errorMessage(e: unknown): string {
+  return e instanceof Error ? e.message : String(e);
+}
+
+// ---------- Loaders ----------
+async function loadWhole(source: ReviewSource, mock: boolean): Promise<{ rows: Review[]; report: SourceReport }> {
+  try {
+    const { items, mode, errors, degraded } = await readReviews(source, { listing: null, mock });
+    return {
+      rows: items,
+      report: {
+        name: source.name,
+        status: degraded ? "error" : errors.length ? "partial" : "ok",
+        mode,
+        count: items.length,
+        ...(errors.length ? { errors } : {}),
+      },
+    };
+  } catch (e) {
+    return { rows: [], report: { name: source.name, status: "error", count: 0, errors: [errorMessage(e)] } };
+  }
+}
+
+async function loadPerListing(source: ReviewSource, listings: string[], mock: boolean): Promise<{ rows: Review[]; report: SourceReport }> {
+  const settled = await settleWithLimit(listings, PER_LISTING_CONCURRENCY, (listing) => readReviews(source, { listing, mock }));
+
+  let rows: Review[] = [];
+  const errors: string[] = [];
+  let mode: string | undefined;
+  settled.forEach((s, i) => {
+    if (s.status === "fulfilled") {
+      rows = rows.concat(s.value.items);
+      mode ??= s.value.mode;
+      errors.push(...s.value.errors.map(e => `${listings[i]}: ${e}`));
+    } else {
+      errors.push(`${listings[i]}: ${errorMessage(s.reason)}`);
+    }
+  });
+  const failed = settled.filter(s => s.status === "rejected").length;
+
+  return {
+    rows,
+    report: {
+      name: source.name,
+      status: failed === 0 && errors.length === 0 ? "ok" : failed === listings.length ? "error" : "partial",
+      mode: mode ?? (mock ? "mock" : "live"),
+      count: rows.length,
+      ...(errors.length ? { errors } : {}),
+    },
+  };
+}
+
+/** Raw rows from every source (no defaults/approvals applied yet) plus a report per source. */
+export async function loadAllReviews(opts: LoadSourcesOptions = {}): Promise<{ rows: Review[]; sources: SourceReport[] }> {
+  const mock = !!opts.mock;
+  // Stored sources are cheap and may hold any channel (Hostaway relays Airbnb etc.), so only live ones are skipped
+  const skipped = (s: ReviewSource) =>
+    !s.capabilities.stored && !!opts.channels && !opts.channels.includes(s.channel.toLowerCase());
+
+  const results = new Map<string, { rows: Review[]; report: SourceReport }>();
+  const whole = SOURCES.filter(s => !s.capabilities.perListing && !skipped(s));
+  (await Promise.all(whole.map(s => loadWhole(s, mock)))).forEach((r, i) => results.set(whole[i].name, r));
+
+  const listings = opts.listing
+    ? [opts.listing]
+    : Array.from(new Set(Array.from(results.values()).flatMap(r => r.rows.map(x => x.listingName)))).filter(Boolean);
+  for (const s of SOURCES.filter(x => x.capabilities.perListing && !skipped(x))) {
+    results.set(s.name, await loadPerListing(s, listings, mock));
+  }
+
+  // Reports and rows in registry order
+  const sources: SourceReport[] = [];
+  let rows: Review[] = [];
+  for (const s of SOURCES) {
+    const r = results.get(s.name);
+    if (!r) {
+      sources.push({ name: s.name, status: "skipped", count: 0 });
+      continue;
+    }
+    sources.push(r.report);
+    rows = rows.concat(r.rows);
+  }
+  return { rows, sources };
+}
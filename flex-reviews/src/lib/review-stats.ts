@@ -0,0 +1,236 @@
+// src/lib/review-stats.ts
+// Aggregates behind /api/reviews/stats: averages, counts and 0–10 rating distributions
+// per listing, category and channel, time series, and period-over-period deltas.
+// Pure (no server imports); all bucketing is in UTC.
+import { overallRating } from "./ratings";
+import { toEpochMs, type Review } from "./review-query";
+
+// ---------- Types ----------
+export type Interval = "month" | "week";
+
+export type Aggregate = {
+  count: number;
+  /** rows with a usable rating */
+  rated: number;
+  avg: number | null;
+  /** index = rating rounded to the nearest integer (0–10) */
+  distribution: number[];
+};
+
+export type CategoryStats = Aggregate & { category: string };
+export type ChannelStats = Aggregate & { channel: string };
+
+export type SeriesPoint = {
+  /** "2025-03" for months, the Monday "2025-03-03" for weeks */
+  period: string;
+  start: string;
+  count: number;
+  avg: number | null;
+  categories: Record<string, number | null>;
+};
+
+export type ListingStats = Aggregate & {
+  listingName: string;
+  categories: Record<string, number | null>;
+  /** same buckets as the portfolio series, so listings line up on one axis */
+  series: SeriesPoint[];
+};
+
+export type PeriodWindow = { from: string; to: string; count: number; avg: number | null };
+
+export type PeriodDeltas = {
+  days: number;
+  current: PeriodWindow;
+  previous: PeriodWindow;
+  change: {
+    count: number;
+    avg: number | null;
+    categories: Record<string, number | null>;
+    listings: Record<string, number | null>;
+  };
+};
+
+export type ReviewStats = {
+  overall: Aggregate & { approved: number };
+  byListing: ListingStats[];
+  byCategory: CategoryStats[];
+  byChannel: ChannelStats[];
+  series: { interval: Interval; points: SeriesPoint[] };
+  deltas: PeriodDeltas;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ---------- Helpers ----------
+function round2(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+function mean(values: number[]): number | null {
+  return values.length ? round2(values.reduce((a, b) => a + b, 0) / values.length) : null;
+}
+
+function diff(a: number | null, b: number | null): number | null {
+  return a === null || b === null ? null : round2(a - b);
+}
+
+function aggregate(ratings: (number | null)[]): Aggregate {
+  const values = ratings.filter((n): n is number => typeof n === "number" && Number.isFinite(n));
+  const distribution = new Array<number>(11).fill(0);
+  for (const v of values) distribution[Math.min(10, Math.max(0, Math.round(v)))]++;
+  return { count: ratings.length, rated: values.length, avg: mean(values), distribution };
+}
+
+function categoryMeans(rows: Review[]): Record<string, number | null> {
+  const byCat = new Map<string, number[]>();
+  for (const r of rows) {
+    for (const c of r.reviewCategory ?? []) {
+      if (!byCat.has(c.category)) byCat.set(c.category, []);
+      if (typeof c.rating === "number") byCat.get(c.category)!.push(c.rating);
+    }
+  }
+  return Object.fromEntries([...byCat.keys()].sort().map(k => [k, mean(byCat.get(k)!)]));
+}
+
+function groupBy<K>(rows: Review[], key: (r: Review) => K): Map<K, Review[]> {
+  const out = new Map<K, Review[]>();
+  for (const r of rows) {
+    const k = key(r);
+    if (!out.has(k)) out.set(k, []);
+    out.get(k)!.push(r);
+  }
+  return out;
+}
+
+// ---------- Time buckets ----------
+function bucketStart(ts: number, interval: Interval): number {
+  const d = new Date(ts);
+  if (interval === "month") return Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1);
+  const day = Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate());
+  return day - ((d.getUTCDay() + 6) % 7) * DAY_MS; // back to Monday
+}
+
+function nextBucket(start: number, interval: Interval): number {
+  if (interval === "week") return start + 7 * DAY_MS;
+  const d = new Date(start);
+  return Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 1);
+}
+
+function bucketLabel(start: number, interval: Interval): string {
+  const iso = new Date(start).toISOString();
+  return interval === "month" ? iso.slice(0, 7) : iso.slice(0, 10);
+}
+
+function bucketRange(rows: Review[], interval: Interval): [number, number] | null {
+  const starts = rows.map(toEpochMs).filter(t => t > 0).map(t => bucketStart(t, interval));
+  return starts.length ? [Math.min(...starts), Math.max(...starts)] : null;
+}
+
+/**
+ * Consecutive buckets from the oldest to the newest row (or across `range`); empty ones
+ * are kept so charts get a continuous axis.
+ */
+export function timeSeries(rows: Review[], interval: Interval, range = bucketRange(rows, interval)): SeriesPoint[] {
+  if (!range) return [];
+  const buckets = groupBy(rows.filter(r => toEpochMs(r) > 0), r => bucketStart(toEpochMs(r), interval));
+  const [first, last] = range;
+
+  const points: SeriesPoint[] = [];
+  for (let start = first; start <= last; start = nextBucket(start, interval)) {
+    const inBucket = buckets.get(start) ?? [];
+    points.push({
+      period: bucketLabel(start, interval),
+      start: new Date(start).toISOString(),
+      count: inBucket.length,
+      avg: aggregate(inBucket.map(overallRating)).avg,
+      categories: categoryMeans(inBucket),
+    });
+  }
+  return points;
+}
+
+// ---------- Period over period ----------
+/**
+ * Compares the `days` before `endMs` with the `days` before that. Pass rows that
+ * weren't cut to a date range, or the previous window will look empty.
+ */
+export function periodDeltas(rows: Review[], days: number, endMs: number): PeriodDeltas {
+  const span = days * DAY_MS;
+  const window = (from: number, to: number) => rows.filter(r => {
+    const t = toEpochMs(r);
+    return t > from && t <= to;
+  });
+  const current = window(endMs - span, endMs);
+  const previous = window(endMs - 2 * span, endMs - span);
+
+  const describe = (from: number, to: number, inWindow: Review[]): PeriodWindow => ({
+    from: new Date(from).toISOString(),
+    to: new Date(to).toISOString(),
+    count: inWindow.length,
+    avg: aggregate(inWindow.map(overallRating)).avg,
+  });
+  const cur = describe(endMs - span, endMs, current);
+  const prev = describe(endMs - 2 * span, endMs - span, previous);
+
+  const curCats = categoryMeans(current);
+  const prevCats = categoryMeans(previous);
+  const categories = Object.fromEntries(
+    [...new Set([...Object.keys(curCats), ...Object.keys(prevCats)])].sort()
+      .map(k => [k, diff(curCats[k] ?? null, prevCats[k] ?? null)])
+  );
+
+  const curListings = groupBy(current, r => r.listingName);
+  const prevListings = groupBy(previous, r => r.listingName);
+  const listingAvg = (m: Map<string, Review[]>, name: string) => aggregate((m.get(name) ?? []).map(overallRating)).avg;
+  const listings = Object.fromEntries(
+    [...new Set([...curListings.keys(), ...prevListings.keys()])].sort()
+      .map(name => [name, diff(listingAvg(curListings, name), listingAvg(prevListings, name))])
+  );
+
+  return {
+    days,
+    current: cur,
+    previous: prev,
+    change: { count: cur.count - prev.count, avg: diff(cur.avg, prev.avg), categories, listings },
+  };
+}
+
+// ---------- Entry point ----------
+export function computeStats(
+  rows: Review[],
+  opts: { interval: Interval; periodDays: number; periodEndMs: number; periodRows: Review[] }
+): ReviewStats {
+  const range = bucketRange(rows, opts.interval);
+  const byListing = [...groupBy(rows, r => r.listingName)]
+    .map(([listingName, group]) => ({
+      listingName,
+      ...aggregate(group.map(overallRating)),
+      categories: categoryMeans(group),
+      series: timeSeries(group, opts.interval, range),
+    }))
+    .sort((a, b) => b.count - a.count || a.listingName.localeCompare(b.listingName));
+
+  const catRatings = new Map<string, (number | null)[]>();
+  for (const r of rows) {
+    for (const c of r.reviewCategory ?? []) {
+      if (!catRatings.has(c.category)) catRatings.set(c.category, []);
+      catRatings.get(c.category)!.push(c.rating);
+    }
+  }
+  const byCategory = [...catRatings]
+    .map(([category, ratings]) => ({ category, ...aggregate(ratings) }))
+    .sort((a, b) => a.category.localeCompare(b.category));
+
+  const byChannel = [...groupBy(rows, r => r.channel ?? "Hostaway")]
+    .map(([channel, group]) => ({ channel, ...aggregate(group.map(overallRating)) }))
+    .sort((a, b) => b.count - a.count || a.channel.localeCompare(b.channel));
+
+  return {
+    overall: { ...aggregate(rows.map(overallRating)), approved: rows.filter(r => r.approved === true).length },
+    byListing,
+    byCategory,
+    byChannel,
+    series: { interval: opts.interval, points: timeSeries(rows, opts.interval, range) },
+    deltas: periodDeltas(opts.periodRows, opts.periodDays, opts.periodEndMs),
+  };
+}
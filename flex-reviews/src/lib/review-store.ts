@@ -0,0 +1,68 @@
+// src/lib/review-store.ts
+// Persistent normalized reviews (data/store/reviews.jsonl), one JSON object per line.
+import { readJsonLines, serialize, storeMtime, writeJsonLines } from "./json-store";
+import { toEpochMs, type Review } from "./review-query";
+
+const FILE = "reviews.jsonl";
+
+// Parsed rows, reused until the file changes on disk
+let cache: { mtime: number; rows: Review[] } | null = null;
+
+/** `null` when nothing has ever been written (never synced). */
+export async function readStoredReviews(): Promise<Review[] | null> {
+  const mtime = await storeMtime(FILE);
+  if (mtime === null) return null;
+  if (cache && cache.mtime === mtime) return cache.rows;
+  const rows = await readJsonLines<Review>(FILE);
+  cache = { mtime, rows };
+  return rows;
+}
+
+/** Last-change time of a review: drives the sync watermark and out-of-order checks. */
+export function changeTs(r: Review): number {
+  return Math.max(r.updatedAtTs ?? 0, toEpochMs(r));
+}
+
+export type UpsertResult = { inserted: number; updated: number; unchanged: number };
+
+/** Counts plus what's new, for ingestion hooks (notifications). */
+export type UpsertOutcome = UpsertResult & {
+  insertedRows: Review[];
+  /** the store was empty before this write (first sync) */
+  initialLoad: boolean;
+};
+
+/**
+ * Insert or replace by review ID. A row older than the stored copy, or
+ * identical to it, is left alone, so replays are harmless.
+ */
+export function upsertReviews(incoming: Review[]): Promise<UpsertOutcome> {
+  return serialize(FILE, async () => {
+    const rows = await readJsonLines<Review>(FILE);
+    const byId = new Map(rows.map(r => [String(r.id), r]));
+    const counts: UpsertResult = { inserted: 0, updated: 0, unchanged: 0 };
+    const insertedRows: Review[] = [];
+
+    for (const r of incoming) {
+      const key = String(r.id);
+      const existing = byId.get(key);
+      if (!existing) {
+        byId.set(key, r);
+        insertedRows.push(r);
+        counts.inserted++;
+      } else if (changeTs(r) < changeTs(existing) || JSON.stringify(r) === JSON.stringify(existing)) {
+        counts.unchanged++;
+      } else {
+        byId.set(key, r);
+        counts.updated++;
+      }
+    }
+
+    // Always write, so a first (even empty) sync marks the store as initialised
+    if (counts.inserted || counts.updated || rows.length === 0) {
+      await writeJsonLines(FILE, Array.from(byId.values()));
+    }
+    cache = null;
+    return { ...counts, insertedRows, initialLoad: rows.length === 0 };
+  });
+}
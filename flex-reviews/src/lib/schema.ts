@@ -1,21 +1,160 @@
+// src/lib/schema.ts
+// The review API contract, shared by the routes, the dashboard and the public pages:
+// the normalized review, the response envelopes and the review query parameters.
+// Pure (zod only), so client components can import the types.
 import { z } from 'zod';
+import { TOPICS, type TopicId } from './review-analysis';
+
+// ---------- Review ----------
+const TOPIC_IDS = TOPICS.map(t => t.id) as [TopicId, ...TopicId[]];
+
+export const CategoryRatingSchema = z.object({
+  category: z.string(),
+  rating: z.number().nullable(),
+});
 
 export const ReviewSchema = z.object({
-  id: z.number(),
-  type: z.string(),
-  status: z.string(),
+  id: z.union([z.number(), z.string()]),
+  type: z.string().optional(),
+  status: z.string().optional(),
+  channel: z.string().optional(),
+  /** the channel's own overall score, normalized onto 0–10; null when it gave none */
   rating: z.number().nullable(),
+  /** the scale the channel rated on (Google 5, Hostaway 10); every rating here is already on 0–10 */
+  ratingScale: z.number().positive().optional(),
+  /** unrounded 0–10: `rating`, or the weighted category mean when there is none (see ratings.ts) */
+  overallRating: z.number().nullable().optional(),
+  /** `overallRating` was computed from `reviewCategory` */
+  ratingDerived: z.boolean().optional(),
   publicReview: z.string(),
-  reviewCategory: z.array(z.object({
-    category: z.string(),
-    rating: z.number().nullable()
-  })),
+  reviewCategory: z.array(CategoryRatingSchema),
   submittedAt: z.string(),
+  submittedAtIso: z.string().optional(),
+  submittedAtTs: z.number().optional(),
+  updatedAtTs: z.number().optional(),
   guestName: z.string(),
-  listingName: z.string()
+  listingName: z.string(),
+  approved: z.boolean().optional(),
+  sourceUrl: z.string().optional(),
+  /** the upstream's own stable ID, e.g. Google's review `name` ("places/…/reviews/…") */
+  externalId: z.string().optional(),
+  /** Google snapshot store: when a review first / last came back from a fetch (see google-snapshots.ts) */
+  firstSeenAt: z.string().optional(),
+  lastSeenAt: z.string().optional(),
+  hostReply: z.object({ body: z.string(), publishedAt: z.string() }).optional(),
+  /** set on rows brought in from a CSV export (see csv-import.ts) */
+  importedAt: z.string().optional(),
+  /** lexicon tagging of `publicReview` (see review-analysis.ts) */
+  topics: z.array(z.enum(TOPIC_IDS)).optional(),
+  sentiment: z.number().optional(),
+  /** set when `q` is present: relevance and [start, end) match ranges in `publicReview` */
+  score: z.number().optional(),
+  highlights: z.array(z.tuple([z.number(), z.number()])).optional(),
 });
+
+export type CategoryRating = z.infer<typeof CategoryRatingSchema>;
+export type Review = z.infer<typeof ReviewSchema>;
+
+// ---------- Envelopes ----------
+/**
+ * One problem with a request. `param` names the query or body field at fault (absent when
+ * none is, e.g. auth); `start`/`end` locate the problem inside a `filter` expression.
+ */
+export const QueryErrorSchema = z.object({
+  param: z.string().optional(),
+  message: z.string(),
+  start: z.number().optional(),
+  end: z.number().optional(),
+});
+export type QueryError = z.infer<typeof QueryErrorSchema>;
+
 export const ReviewsResponseSchema = z.object({
-  status: z.enum(['success','error']),
-  result: z.array(ReviewSchema)
+  status: z.literal('success'),
+  result: z.array(ReviewSchema),
+  total: z.number().optional(),
+  nextCursor: z.string().nullable().optional(),
+  warnings: z.array(z.string()).optional(),
 });
-export type Review = z.infer<typeof ReviewSchema>;
+export type ReviewsResponse = z.infer<typeof ReviewsResponseSchema>;
+
+/** Every route's error body (see api-response.ts). */
+export const ErrorResponseSchema = z.object({
+  status: z.literal('error'),
+  errors: z.array(QueryErrorSchema),
+});
+
+// ---------- Query parameters ----------
+export const SORT_FIELDS = ['date', 'rating', 'relevance'] as const;
+export const SORT_ORDERS = ['asc', 'desc'] as const;
+
+const lower = (v: unknown) => (typeof v === 'string' ? v.toLowerCase() : v);
+const date = (param: string) =>
+  z.string().refine(s => !Number.isNaN(Date.parse(s)), { error: `${param} must be a date (YYYY-MM-DD or ISO 8601)` });
+
+/** The plain (single-valued) params every review route understands; `where` and `filter` have their own parsers. */
+export const ReviewQueryParamsSchema = z
+  .object({
+    listing: z.string().optional(),
+    q: z.string().optional(),
+    category: z.string().optional(),
+    min: z.coerce
+      .number({ error: 'min must be a number from 0 to 10' })
+      .min(0, { error: 'min must be a number from 0 to 10' })
+      .max(10, { error: 'min must be a number from 0 to 10' })
+      .optional(),
+    type: z.string().optional(),
+    channel: z.string().optional(),
+    topic: z.string().optional(),
+    approvedOnly: z.enum(['true', 'false'], { error: 'approvedOnly must be true or false' }).optional(),
+    from: date('from').optional(),
+    to: date('to').optional(),
+    sort: z.preprocess(lower, z.enum(SORT_FIELDS, { error: `sort must be one of ${SORT_FIELDS.join(', ')}` })).optional(),
+    order: z.preprocess(lower, z.enum(SORT_ORDERS, { error: 'order must be asc or desc' })).optional(),
+    mock: z.enum(['0', '1'], { error: 'mock must be 0 or 1' }).optional(),
+  })
+  .refine(p => !p.from || !p.to || Date.parse(p.from) <= Date.parse(p.to), {
+    error: 'to must not be before from',
+    path: ['to'],
+  });
+export type ReviewQueryParams = z.infer<typeof ReviewQueryParamsSchema>;
+
+/**
+ * Validates search params against `schema`; empty values count as absent (`?min=` is no filter).
+ * Each zod issue becomes a QueryError named after the offending param.
+ */
+export function parseParams<T>(
+  schema: z.ZodType<T>,
+  searchParams: URLSearchParams
+): { data: T; errors: [] } | { data: null; errors: QueryError[] } {
+  const input: Record<string, string> = {};
+  for (const [k, v] of searchParams) if (v !== '' && !(k in input)) input[k] = v;
+  const parsed = schema.safeParse(input);
+  if (parsed.success) return { data: parsed.data, errors: [] };
+  return {
+    data: null,
+    errors: parsed.error.issues.map(issue => ({ param: String(issue.path[0] ?? 'query'), message: issue.message })),
+  };
+}
+
+// ---------- Output checks ----------
+const MAX_REPORTED = 20;
+
+/**
+ * Drops rows that break ReviewSchema before they reach a client, with a warning per row
+ * (a malformed upstream record shouldn't fail the whole response, or slip through).
+ */
+export function checkReviews<T extends { id?: unknown }>(rows: T[]): { rows: T[]; warnings: string[] } {
+  const ok: T[] = [];
+  const warnings: string[] = [];
+  for (const r of rows) {
+    const checked = ReviewSchema.safeParse(r);
+    if (checked.success) { ok.push(r); continue; }
+    const issue = checked.error.issues[0];
+    if (warnings.length < MAX_REPORTED) {
+      warnings.push(`Dropped review ${String(r.id ?? '?')}: ${issue.path.join('.') || 'row'} ${issue.message}`);
+    }
+  }
+  const dropped = rows.length - ok.length;
+  if (dropped > MAX_REPORTED) warnings.push(`…and ${dropped - MAX_REPORTED} more invalid reviews`);
+  return { rows: ok, warnings };
+}
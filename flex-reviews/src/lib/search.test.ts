@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { buildIndex, parseSearchQuery, search, stem, tokenize, type SearchDoc } from "./search";
+
+const doc = (publicReview: string, listingName = "Flat", guestName = "Guest"): SearchDoc =>
+  ({ publicReview, listingName, guestName });
+
+function run(docs: SearchDoc[], q: string) {
+  return search(buildIndex(docs), parseSearchQuery(q));
+}
+
+describe("stem", () => {
+  it("pairs plurals and -ed/-ing forms", () => {
+    expect(stem("cleaned")).toBe(stem("clean"));
+    expect(stem("cleaning")).toBe(stem("clean"));
+    expect(stem("stopped")).toBe(stem("stop"));
+    expect(stem("parties")).toBe(stem("party"));
+    expect(stem("beds")).toBe(stem("bed"));
+  });
+});
+
+describe("tokenize", () => {
+  it("folds case and accents and keeps offsets into the original", () => {
+    const text = "Café  CLEAN";
+    const tokens = tokenize(text);
+    expect(tokens.map(t => t.raw)).toEqual(["cafe", "clean"]);
+    expect(text.slice(tokens[1].start, tokens[1].end)).toBe("CLEAN");
+    expect(tokens.map(t => t.pos)).toEqual([0, 1]);
+  });
+});
+
+describe("parseSearchQuery", () => {
+  it("reads terms, phrases, prefixes and negations", () => {
+    expect(parseSearchQuery('clean "check in" -noise spot*')).toEqual([
+      { kind: "term", stem: "clean", negate: false },
+      { kind: "phrase", stems: ["check", "in"], negate: false },
+      { kind: "term", stem: "nois", negate: true },
+      { kind: "prefix", prefix: "spot", negate: false },
+    ]);
+  });
+
+  it("treats a hyphenated word as a phrase and drops empty clauses", () => {
+    expect(parseSearchQuery('check-in "" *')).toEqual([{ kind: "phrase", stems: ["check", "in"], negate: false }]);
+  });
+});
+
+describe("search", () => {
+  const docs = [
+    doc("Very clean and quiet flat"),
+    doc("Cleaning was poor, noisy street"),
+    doc("Quiet, spotless, easy check-in"),
+    doc("Check the heating, in winter it is cold"),
+  ];
+
+  it("needs every positive term (stemmed) and no negated one", () => {
+    expect([...run(docs, "cleaned").keys()].sort()).toEqual([0, 1]);
+    expect([...run(docs, "clean quiet").keys()]).toEqual([0]);
+    expect([...run(docs, "quiet -spotless").keys()]).toEqual([0]);
+  });
+
+  it("matches phrases only when the words are adjacent", () => {
+    expect([...run(docs, '"check in"').keys()]).toEqual([2]);
+    expect([...run(docs, "check-in").keys()]).toEqual([2]);
+  });
+
+  it("expands prefixes", () => {
+    expect([...run(docs, "spot*").keys()]).toEqual([2]);
+    expect([...run(docs, "nois*").keys()]).toEqual([1]);
+  });
+
+  it("serves every document but the excluded ones for a negation-only query", () => {
+    expect([...run(docs, "-quiet").keys()].sort()).toEqual([1, 3]);
+  });
+
+  it("ranks rarer terms and repeated hits higher, and review text over other fields", () => {
+    const hits = run(
+      [doc("clean clean clean"), doc("clean"), doc("nothing here", "Clean Lofts"), doc("other")],
+      "clean"
+    );
+    const score = (i: number) => hits.get(i)?.score ?? 0;
+    expect(score(0)).toBeGreaterThan(score(1));
+    expect(score(1)).toBeGreaterThan(score(2));
+    expect(hits.has(3)).toBe(false);
+  });
+
+  it("highlights merged ranges in the review text only", () => {
+    const text = "Clean, quiet; clean again";
+    const hit = run([doc(text, "Clean Flat")], "clean quiet").get(0);
+    expect(hit?.highlights.map(([s, e]) => text.slice(s, e))).toEqual(["Clean", "quiet", "clean"]);
+  });
+});
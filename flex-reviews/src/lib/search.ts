@@ -0,0 +1,194 @@
+// src/lib/search.ts
+// Tokenized, ranked full-text search over normalized reviews.
+//
+// Query syntax:  clean quiet   → both terms (stemmed: "cleaned" matches "clean")
+//                "check-in"    → phrase; an unquoted check-in is a phrase too
+//                -noise        → exclude
+//                spot*         → prefix
+// Accents and case are ignored.
+
+// ---------- Tokenizing ----------
+export type Token = { raw: string; stem: string; start: number; end: number; pos: number };
+
+function fold(s: string): string {
+  return s.normalize("NFD").replace(/\p{M}+/gu, "").toLowerCase();
+}
+
+/** Deliberately light suffix stripping: enough to pair plurals and -ed/-ing forms. */
+export function stem(word: string): string {
+  let w = word;
+  if (w.length <= 3) return w;
+  if (/(s|x|z|ch|sh)es$/.test(w)) w = w.slice(0, -2);
+  else if (/ies$/.test(w)) w = w.slice(0, -3) + "y";
+  else if (/[^s]s$/.test(w)) w = w.slice(0, -1);
+
+  for (const suf of ["ingly", "edly", "ing", "ed", "ly"]) {
+    if (w.endsWith(suf) && w.length - suf.length >= 3) {
+      w = w.slice(0, -suf.length);
+      if (/([^aeiouls])\1$/.test(w)) w = w.slice(0, -1); // stopped → stop
+      break;
+    }
+  }
+  if (w.length > 4 && w.endsWith("e")) w = w.slice(0, -1);
+  return w;
+}
+
+/** Tokens with offsets into the original string, so matches can be highlighted. */
+export function tokenize(text: string): Token[] {
+  const out: Token[] = [];
+  let pos = 0;
+  for (const m of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const raw = fold(m[0]);
+    out.push({ raw, stem: stem(raw), start: m.index ?? 0, end: (m.index ?? 0) + m[0].length, pos: pos++ });
+  }
+  return out;
+}
+
+// ---------- Query parsing ----------
+export type Clause =
+  | { kind: "term"; stem: string; negate: boolean }
+  | { kind: "prefix"; prefix: string; negate: boolean }
+  | { kind: "phrase"; stems: string[]; negate: boolean };
+
+export function parseSearchQuery(q: string): Clause[] {
+  const clauses: Clause[] = [];
+  for (const m of q.matchAll(/(-?)"([^"]*)"|(-?)(\S+)/g)) {
+    const quoted = m[2] !== undefined;
+    const negate = (quoted ? m[1] : m[3]) === "-";
+    const body = quoted ? m[2] : m[4];
+
+    if (!quoted && body.endsWith("*")) {
+      const prefix = fold(body.slice(0, -1)).replace(/[^\p{L}\p{N}]/gu, "");
+      if (prefix) clauses.push({ kind: "prefix", prefix, negate });
+      continue;
+    }
+    const stems = tokenize(body).map(t => t.stem);
+    if (stems.length === 1) clauses.push({ kind: "term", stem: stems[0], negate });
+    else if (stems.length > 1) clauses.push({ kind: "phrase", stems, negate });
+  }
+  return clauses;
+}
+
+// ---------- Index ----------
+export type SearchDoc = { guestName: string; listingName: string; publicReview: string };
+type Field = keyof SearchDoc;
+
+const FIELDS: Field[] = ["publicReview", "listingName", "guestName"];
+const FIELD_WEIGHT: Record<Field, number> = { publicReview: 1, listingName: 0.5, guestName: 0.5 };
+
+type Posting = { doc: number; field: Field; pos: number; start: number; end: number };
+
+export type SearchIndex = {
+  size: number;
+  postings: Map<string, Posting[]>;      // stem → occurrences
+  rawToStems: Map<string, Set<string>>;  // surface form → stems (prefix lookups)
+  at: Set<string>;                       // `${doc}|${field}|${pos}|${stem}` (phrase adjacency)
+};
+
+export function buildIndex(docs: SearchDoc[]): SearchIndex {
+  const index: SearchIndex = { size: docs.length, postings: new Map(), rawToStems: new Map(), at: new Set() };
+  docs.forEach((d, doc) => {
+    for (const field of FIELDS) {
+      for (const t of tokenize(d[field] ?? "")) {
+        let list = index.postings.get(t.stem);
+        if (!list) index.postings.set(t.stem, (list = []));
+        list.push({ doc, field, pos: t.pos, start: t.start, end: t.end });
+
+        let stems = index.rawToStems.get(t.raw);
+        if (!stems) index.rawToStems.set(t.raw, (stems = new Set()));
+        stems.add(t.stem);
+
+        index.at.add(`${doc}|${field}|${t.pos}|${t.stem}`);
+      }
+    }
+  });
+  return index;
+}
+
+/** Occurrences of a clause; for phrases every token of the match is returned. */
+function occurrences(index: SearchIndex, c: Clause): Posting[] {
+  if (c.kind === "term") return index.postings.get(c.stem) ?? [];
+  if (c.kind === "prefix") {
+    const stems = new Set<string>();
+    for (const [raw, s] of index.rawToStems) if (raw.startsWith(c.prefix)) s.forEach(x => stems.add(x));
+    return Array.from(stems).flatMap(s => index.postings.get(s) ?? []);
+  }
+  const out: Posting[] = [];
+  for (const first of index.postings.get(c.stems[0]) ?? []) {
+    const ok = c.stems.every((s, i) => index.at.has(`${first.doc}|${first.field}|${first.pos + i}|${s}`));
+    if (!ok) continue;
+    out.push(first);
+    for (let i = 1; i < c.stems.length; i++) {
+      const p = (index.postings.get(c.stems[i]) ?? []).find(
+        x => x.doc === first.doc && x.field === first.field && x.pos === first.pos + i
+      );
+      if (p) out.push(p);
+    }
+  }
+  return out;
+}
+
+// ---------- Matching + ranking ----------
+export type SearchHit = {
+  score: number;
+  /** [start, end) character ranges in `publicReview` */
+  highlights: [number, number][];
+};
+
+const K1 = 1.2;
+
+function mergeRanges(ranges: [number, number][]): [number, number][] {
+  const sorted = ranges.slice().sort((a, b) => a[0] - b[0]);
+  const out: [number, number][] = [];
+  for (const r of sorted) {
+    const last = out[out.length - 1];
+    if (last && r[0] <= last[1]) last[1] = Math.max(last[1], r[1]);
+    else out.push([r[0], r[1]]);
+  }
+  return out;
+}
+
+/**
+ * Documents matching every positive clause and no negated one, scored
+ * BM25-style (idf × saturated, field-weighted term frequency).
+ */
+export function search(index: SearchIndex, clauses: Clause[]): Map<number, SearchHit> {
+  const positives = clauses.filter(c => !c.negate);
+  const negatives = clauses.filter(c => c.negate);
+
+  const excluded = new Set<number>();
+  for (const c of negatives) occurrences(index, c).forEach(p => excluded.add(p.doc));
+
+  const perClause: { clause: Clause; byDoc: Map<number, Posting[]> }[] = [];
+  for (const clause of positives) {
+    const byDoc = new Map<number, Posting[]>();
+    for (const p of occurrences(index, clause)) {
+      const list = byDoc.get(p.doc);
+      if (list) list.push(p); else byDoc.set(p.doc, [p]);
+    }
+    perClause.push({ clause, byDoc });
+  }
+
+  // every doc when there are only negations, else docs hit by all positive clauses
+  const pool = Array.from({ length: index.size }, (_, i) => i)
+    .filter(doc => perClause.every(({ byDoc }) => byDoc.has(doc)));
+
+  const hits = new Map<number, SearchHit>();
+  for (const doc of pool) {
+    if (excluded.has(doc)) continue;
+    let score = 0;
+    const ranges: [number, number][] = [];
+    for (const { clause, byDoc } of perClause) {
+      const occ = byDoc.get(doc) ?? [];
+      const df = byDoc.size;
+      const idf = Math.log(1 + (index.size - df + 0.5) / (df + 0.5));
+      const tf = occ.reduce((sum, p) => sum + FIELD_WEIGHT[p.field], 0)
+        / (clause.kind === "phrase" ? clause.stems.length : 1);
+      const boost = clause.kind === "phrase" ? 1.5 : 1;
+      score += boost * idf * (tf * (K1 + 1)) / (tf + K1);
+      for (const p of occ) if (p.field === "publicReview") ranges.push([p.start, p.end]);
+    }
+    hits.set(doc, { score, highlights: mergeRanges(ranges) });
+  }
+  return hits;
+}
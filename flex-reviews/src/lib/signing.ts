@@ -0,0 +1,13 @@
+// src/lib/signing.ts
+import crypto from "node:crypto";
+
+export function hmacSha256Hex(secret: string, payload: string): string {
+  return crypto.createHmac("sha256", secret).update(payload, "utf8").digest("hex");
+}
+
+/** Constant-time string comparison (false on length mismatch). */
+export function safeEqual(a: string, b: string): boolean {
+  const A = Buffer.from(a);
+  const B = Buffer.from(b);
+  return A.length === B.length && crypto.timingSafeEqual(A, B);
+}
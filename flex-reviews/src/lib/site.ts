@@ -0,0 +1,7 @@
+// src/lib/site.ts
+// Public site identity, for metadata and structured data.
+
+export const SITE_NAME = "The Flex";
+
+/** Origin the public pages are served from (canonical links, OpenGraph, JSON-LD). */
+export const SITE_URL = process.env.SITE_URL || "http://localhost:3000";
@@ -0,0 +1,158 @@
+// src/lib/smtp.ts
+// Minimal SMTP submission client (EHLO, STARTTLS, AUTH PLAIN, one message per connection).
+// Enough for a relay or a local stand-in such as MailHog/smtp4dev (`SMTP_PORT=1025`).
+import net from "node:net";
+import os from "node:os";
+import tls from "node:tls";
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  /** implicit TLS (port 465); otherwise STARTTLS is used when the server offers it */
+  secure: boolean;
+  user?: string;
+  pass?: string;
+};
+
+export type MailMessage = { from: string; to: string[]; subject: string; text: string };
+
+type Reply = { code: number; lines: string[] };
+
+const TIMEOUT_MS = 15_000;
+
+/** Buffers server output and hands out complete (possibly multi-line) replies. */
+class ReplyReader {
+  private buf = "";
+  private replies: Reply[] = [];
+  private waiting: ((r: Reply) => void) | null = null;
+  private failed: ((e: Error) => void) | null = null;
+  private error: Error | null = null;
+
+  attach(socket: net.Socket) {
+    socket.setEncoding("utf8");
+    socket.on("data", (chunk: string) => this.push(chunk));
+    socket.on("error", (e) => this.fail(e));
+    socket.on("close", () => this.fail(new Error("smtp: connection closed")));
+  }
+
+  private push(chunk: string) {
+    this.buf += chunk;
+    let lines: string[] = [];
+    let nl: number;
+    while ((nl = this.buf.indexOf("\n")) !== -1) {
+      const line = this.buf.slice(0, nl).replace(/\r$/, "");
+      this.buf = this.buf.slice(nl + 1);
+      lines.push(line);
+      // "250-…" continues, "250 …" ends the reply
+      if (/^\d{3}(?: |$)/.test(line)) {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: lines.map(l => l.slice(4)) });
+        lines = [];
+      }
+    }
+    if (lines.length) this.buf = lines.join("\n") + "\n" + this.buf;
+    this.flush();
+  }
+
+  private fail(e: Error) {
+    this.error ??= e;
+    this.flush();
+  }
+
+  private flush() {
+    if (this.waiting && this.replies.length) {
+      const w = this.waiting;
+      this.waiting = this.failed = null;
+      w(this.replies.shift()!);
+    } else if (this.failed && this.error) {
+      const f = this.failed;
+      this.waiting = this.failed = null;
+      f(this.error);
+    }
+  }
+
+  next(): Promise<Reply> {
+    return new Promise((resolve, reject) => {
+      this.waiting = resolve;
+      this.failed = reject;
+      this.flush();
+    });
+  }
+}
+
+function encodeHeader(s: string): string {
+  return /^[\x20-\x7e]*$/.test(s) ? s : `=?UTF-8?B?${Buffer.from(s, "utf8").toString("base64")}?=`;
+}
+
+function buildMessage(msg: MailMessage, host: string): string {
+  const body = Buffer.from(msg.text, "utf8").toString("base64").replace(/.{76}/g, "$&\r\n");
+  return [
+    `From: ${msg.from}`,
+    `To: ${msg.to.join(", ")}`,
+    `Subject: ${encodeHeader(msg.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${Date.now()}.${Math.random().toString(36).slice(2)}@${host}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+function address(s: string): string {
+  const m = /<([^>]+)>/.exec(s);
+  return (m ? m[1] : s).trim();
+}
+
+export async function sendMail(cfg: SmtpConfig, msg: MailMessage): Promise<void> {
+  if (!msg.to.length) throw new Error("smtp: no recipients");
+  const helo = os.hostname() || "localhost";
+
+  let socket: net.Socket = cfg.secure
+    ? tls.connect({ host: cfg.host, port: cfg.port, servername: cfg.host })
+    : net.connect({ host: cfg.host, port: cfg.port });
+  socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error("smtp: timed out")));
+  let reader = new ReplyReader();
+  reader.attach(socket);
+
+  const expect = async (ok: number[], what: string): Promise<Reply> => {
+    const r = await reader.next();
+    if (!ok.includes(r.code)) throw new Error(`smtp: ${what} rejected (${r.code} ${r.lines.join(" ")})`);
+    return r;
+  };
+  const command = (line: string, ok: number[], what = line.split(/[ :]/)[0]) => {
+    socket.write(line + "\r\n");
+    return expect(ok, what);
+  };
+
+  try {
+    await expect([220], "greeting");
+    const ehlo = await command(`EHLO ${helo}`, [250]);
+
+    if (!cfg.secure && ehlo.lines.some(l => /^STARTTLS\b/i.test(l))) {
+      await command("STARTTLS", [220]);
+      socket.removeAllListeners("data");
+      socket.removeAllListeners("close");
+      socket = tls.connect({ socket, servername: cfg.host });
+      socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error("smtp: timed out")));
+      reader = new ReplyReader();
+      reader.attach(socket);
+      await command(`EHLO ${helo}`, [250]);
+    }
+
+    if (cfg.user) {
+      const token = Buffer.from(`\0${cfg.user}\0${cfg.pass ?? ""}`, "utf8").toString("base64");
+      await command(`AUTH PLAIN ${token}`, [235], "AUTH");
+    }
+
+    await command(`MAIL FROM:<${address(msg.from)}>`, [250], "MAIL FROM");
+    for (const to of msg.to) await command(`RCPT TO:<${address(to)}>`, [250, 251], `RCPT TO ${to}`);
+    await command("DATA", [354]);
+    // dot-stuffing: a line starting with "." gets another one
+    const data = buildMessage(msg, helo).replace(/^\./gm, "..");
+    await command(`${data}\r\n.`, [250], "message");
+    await command("QUIT", [221]).catch(() => { /* some servers just hang up */ });
+  } finally {
+    socket.destroy();
+  }
+}
@@ -0,0 +1,92 @@
+// src/lib/source-adapter.ts
+// The ReviewSource contract every integration implements (Hostaway, Google, CSV imports…),
+// plus the plumbing they share: normalize + `channel` tagging, a TTL cache and error capture.
+// Adding a channel means one adapter and an entry in the registry (review-sources.ts).
+import type { Review } from "./review-query";
+
+// ---------- Types ----------
+export type SourceCapabilities = {
+  /** fetched one listing at a time (Google Places), so it needs listing names from elsewhere */
+  perListing: boolean;
+  /** can serve bundled mock data (`mock=1`, or when no credentials are set) */
+  mock: boolean;
+  /** host replies can be published back to it */
+  replies: boolean;
+  /** kept in a local store (sync, webhooks, imports); reads don't touch the upstream */
+  stored: boolean;
+};
+
+export type SourceContext = {
+  /** the listing to fetch (per-listing sources); null = everything */
+  listing: string | null;
+  mock: boolean;
+  /** incremental pulls: only rows changed at or after this time (ms) are needed; sources may return more */
+  since?: number;
+};
+
+export type SourceFetch<T> = {
+  items: T[];
+  /** how it was served, e.g. "live", "mock", "store", "live-error" */
+  mode: string;
+  /** problems that didn't stop the fetch (skipped pages, fallback reasons) */
+  errors: string[];
+  /** a stand-in (e.g. mock data) was served because the real thing failed */
+  degraded?: boolean;
+};
+
+export type SourceHealth = {
+  status: "ok" | "degraded" | "down" | "unconfigured";
+  detail?: string;
+};
+
+export interface ReviewSource<Raw = unknown> {
+  readonly name: string;
+  /** `channel` given to rows that don't carry their own */
+  readonly channel: string;
+  readonly capabilities: SourceCapabilities;
+  /** how long a successful read may be served from memory (0 = never cached) */
+  readonly cacheTtlMs: number;
+  /** upstream records, as the API (or mock) returns them; throws when nothing could be fetched */
+  fetch(ctx: SourceContext): Promise<SourceFetch<Raw>>;
+  normalize(raw: Raw, ctx: SourceContext): Review;
+  /** stored sources: the already-normalized local copy the routes read */
+  read?(ctx: SourceContext): Promise<SourceFetch<Review>>;
+  health(): Promise<SourceHealth>;
+}
+
+// ---------- Normalize + tag ----------
+/** Every row leaves a source with a channel, and per-listing rows with our listing name. */
+function tag(source: Pick<ReviewSource, "channel" | "capabilities">, r: Review, ctx: SourceContext): Review {
+  const channel = r.channel ?? source.channel;
+  const listingName = source.capabilities.perListing && ctx.listing ? ctx.listing : r.listingName;
+  return channel === r.channel && listingName === r.listingName ? r : { ...r, channel, listingName };
+}
+
+export function normalizeWith<Raw>(source: ReviewSource<Raw>, raw: Raw, ctx: SourceContext): Review {
+  return tag(source, source.normalize(raw, ctx), ctx);
+}
+
+/** Straight from the upstream: fetch + normalize (what a sync ingests). */
+export async function pullReviews<Raw>(source: ReviewSource<Raw>, ctx: SourceContext): Promise<SourceFetch<Review>> {
+  const fetched = await source.fetch(ctx);
+  return { ...fetched, items: fetched.items.map(raw => normalizeWith(source, raw, ctx)) };
+}
+
+// ---------- Cached reads ----------
+const cache = new Map<string, { at: number; value: SourceFetch<Review> }>();
+
+/**
+ * What the review routes serve: the stored copy for stored sources, otherwise a pull,
+ * kept for `cacheTtlMs`. Degraded results are never cached.
+ */
+export async function readReviews<Raw>(source: ReviewSource<Raw>, ctx: SourceContext): Promise<SourceFetch<Review>> {
+  const key = `${source.name}|${ctx.listing ?? "*"}|${ctx.mock ? "mock" : "live"}`;
+  const hit = cache.get(key);
+  if (hit && Date.now() - hit.at < source.cacheTtlMs) return hit.value;
+
+  const value = source.read
+    ? await source.read(ctx).then(f => ({ ...f, items: f.items.map(r => tag(source, r, ctx)) }))
+    : await pullReviews(source, ctx);
+  if (source.cacheTtlMs > 0 && !value.degraded) cache.set(key, { at: Date.now(), value });
+  return value;
+}
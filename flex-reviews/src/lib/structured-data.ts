@@ -0,0 +1,73 @@
+// src/lib/structured-data.ts
+// schema.org JSON-LD for the public property pages: the listing as a LodgingBusiness with an
+// AggregateRating and its Reviews. Built from approved reviews only, on a 5-point scale like the pages.
+import type { Listing } from "./listings";
+import { averageRating, overallRating } from "./ratings";
+import type { Review } from "./schema";
+import { SITE_NAME, SITE_URL } from "./site";
+
+// Enough for rich results without shipping the whole review history in every page
+const MAX_REVIEWS = 20;
+
+const toFive = (score10: number) => Math.round(score10 * 5) / 10;
+
+function isoDate(r: Review): string | undefined {
+  const ms = Date.parse(r.submittedAtIso ?? r.submittedAt.replace(" ", "T"));
+  return Number.isNaN(ms) ? undefined : new Date(ms).toISOString().slice(0, 10);
+}
+
+export function listingJsonLd(listing: Listing, approved: Review[]): Record<string, unknown> {
+  const url = new URL(`/properties/${listing.slug}`, SITE_URL).toString();
+  // Google's terms don't allow republishing its reviews as our markup
+  const own = approved.filter(r => r.channel !== "Google");
+  const rated = own.filter(r => overallRating(r) !== null);
+  const mean10 = averageRating(rated);
+
+  return {
+    "@context": "https://schema.org",
+    "@type": "LodgingBusiness",
+    "@id": url,
+    url,
+    name: listing.name,
+    description: listing.description.split(/\n\s*\n/)[0] || undefined,
+    brand: { "@type": "Brand", name: SITE_NAME },
+    ...(listing.address || listing.city
+      ? {
+          address: {
+            "@type": "PostalAddress",
+            streetAddress: listing.address ?? undefined,
+            addressLocality: listing.city ?? undefined,
+            addressCountry: listing.countryCode ?? undefined,
+          },
+        }
+      : {}),
+    amenityFeature: listing.amenities.map(name => ({ "@type": "LocationFeatureSpecification", name, value: true })),
+    ...(mean10 !== null
+      ? {
+          aggregateRating: {
+            "@type": "AggregateRating",
+            ratingValue: toFive(mean10),
+            bestRating: 5,
+            worstRating: 0,
+            ratingCount: rated.length,
+            reviewCount: own.length,
+          },
+        }
+      : {}),
+    review: own.slice(0, MAX_REVIEWS).map(r => {
+      const score = overallRating(r);
+      return {
+        "@type": "Review",
+        author: { "@type": "Person", name: r.guestName },
+        datePublished: isoDate(r),
+        reviewBody: r.publicReview,
+        ...(score !== null ? { reviewRating: { "@type": "Rating", ratingValue: toFive(score), bestRating: 5, worstRating: 0 } } : {}),
+      };
+    }),
+  };
+}
+
+/** For `<script type="application/ld+json">`; `<` is escaped so review text can't close the tag. */
+export function jsonLdScript(data: Record<string, unknown>): string {
+  return JSON.stringify(data).replace(/</g, "\\u003c");
+}
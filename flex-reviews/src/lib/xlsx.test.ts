@@ -0,0 +1,83 @@
+import zlib from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { xlsxChunks, type Cell } from "./xlsx";
+
+type Entry = { name: string; data: string; crc: number; size: number };
+
+/** Reads the archive the way an unzipper does: end record → central directory → local entries. */
+function unzip(zip: Buffer): Entry[] {
+  const end = zip.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+  expect(end).toBe(zip.length - 22);
+  const count = zip.readUInt16LE(end + 10);
+  let p = zip.readUInt32LE(end + 16);
+  expect(p + zip.readUInt32LE(end + 12)).toBe(end);
+
+  const entries: Entry[] = [];
+  for (let i = 0; i < count; i++) {
+    expect(zip.readUInt32LE(p)).toBe(0x02014b50);
+    const crc = zip.readUInt32LE(p + 16);
+    const compressed = zip.readUInt32LE(p + 20);
+    const size = zip.readUInt32LE(p + 24);
+    const nameLength = zip.readUInt16LE(p + 28);
+    const offset = zip.readUInt32LE(p + 42);
+    const name = zip.toString("utf8", p + 46, p + 46 + nameLength);
+    p += 46 + nameLength;
+
+    expect(zip.readUInt32LE(offset)).toBe(0x04034b50);
+    const dataStart = offset + 30 + zip.readUInt16LE(offset + 26);
+    const raw = zlib.inflateRawSync(zip.subarray(dataStart, dataStart + compressed));
+    // the data descriptor after the entry repeats what the directory says
+    const d = dataStart + compressed;
+    expect([zip.readUInt32LE(d), zip.readUInt32LE(d + 4), zip.readUInt32LE(d + 8), zip.readUInt32LE(d + 12)])
+      .toEqual([0x08074b50, crc, compressed, size]);
+    entries.push({ name, data: raw.toString("utf8"), crc, size });
+  }
+  return entries;
+}
+
+function build(header: string[], batches: Cell[][][], name = "Reviews"): Entry[] {
+  return unzip(Buffer.concat([...xlsxChunks(name, header, batches)]));
+}
+
+describe("xlsxChunks", () => {
+  it("writes a valid zip with every workbook part", () => {
+    const entries = build(["id", "rating"], [[["1", 9]], [["2", null]]]);
+    expect(entries.map(e => e.name)).toEqual([
+      "[Content_Types].xml", "_rels/.rels", "xl/workbook.xml", "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml", "xl/worksheets/sheet1.xml",
+    ]);
+    for (const e of entries) {
+      expect(e.size).toBe(Buffer.byteLength(e.data));
+      expect(e.crc).toBe(zlib.crc32(e.data));
+    }
+  });
+
+  it("writes the header bold and the cells by type, across batches", () => {
+    const sheet = build(["id", "ok", "text"], [[["1", true, "a & <b>"]], [["2", false, ""], ["3", null, 4.5]]])
+      .find(e => e.name === "xl/worksheets/sheet1.xml")!.data;
+    const rows = sheet.match(/<row>.*?<\/row>/g)!;
+    expect(rows).toHaveLength(4);
+    expect(rows[0]).toContain('<c t="inlineStr" s="1"><is><t xml:space="preserve">id</t></is></c>');
+    expect(rows[1]).toContain('<c t="b"><v>1</v></c>');
+    expect(rows[1]).toContain("a &amp; &lt;b&gt;");
+    expect(rows[2]).toBe('<row><c t="inlineStr"><is><t xml:space="preserve">2</t></is></c><c t="b"><v>0</v></c><c/></row>');
+    expect(rows[3]).toContain("<c/><c><v>4.5</v></c>");
+  });
+
+  it("cleans the sheet name", () => {
+    const workbook = build(["id"], [], "Q1/Q2 [draft]").find(e => e.name === "xl/workbook.xml")!.data;
+    expect(workbook).toContain('<sheet name="Q1 Q2  draft " sheetId="1"');
+  });
+
+  it("pulls row batches only as the output is read", () => {
+    let pulled = 0;
+    function* lazy(): Generator<Cell[][]> {
+      for (let i = 0; i < 3; i++) { pulled++; yield [[i]]; }
+    }
+    const chunks = xlsxChunks("Reviews", ["n"], lazy());
+    for (let i = 0; i < 12; i++) chunks.next();
+    expect(pulled).toBeLessThan(3);
+    while (!chunks.next().done);
+    expect(pulled).toBe(3);
+  });
+});
@@ -0,0 +1,201 @@
+// src/lib/xlsx.ts
+// Streaming single-sheet .xlsx writer: the zip is produced entry by entry and the sheet
+// row batch by row batch, so memory stays flat however many rows go through it.
+// Cells are written as inline strings/numbers (no shared-strings table to build up front).
+import zlib from "node:zlib";
+
+export type Cell = string | number | boolean | null | undefined;
+
+// ---------- Zip ----------
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+function crc32(buf: Buffer, prev = 0): number {
+  let c = ~prev >>> 0;
+  for (let i = 0; i < buf.length; i++) c = CRC_TABLE[(c ^ buf[i]) & 0xff] ^ (c >>> 8);
+  return ~c >>> 0;
+}
+
+function dosDateTime(d: Date): { time: number; date: number } {
+  return {
+    time: (d.getHours() << 11) | (d.getMinutes() << 5) | Math.floor(d.getSeconds() / 2),
+    date: ((d.getFullYear() - 1980) << 9) | ((d.getMonth() + 1) << 5) | d.getDate(),
+  };
+}
+
+type ZipEntry = { name: Buffer; crc: number; compressed: number; size: number; offset: number };
+
+// General purpose flags: sizes/CRC follow the data (bit 3), UTF-8 names (bit 11)
+const FLAGS = 0x0808;
+const DEFLATE = 8;
+// An empty final block, closing the run of sync-flushed chunks
+const FINAL_BLOCK = zlib.deflateRawSync(Buffer.alloc(0));
+
+/**
+ * Each entry's data is a series of independently deflated, sync-flushed chunks followed
+ * by an empty final block — still one valid deflate stream, produced without buffering.
+ */
+class ZipWriter {
+  private offset = 0;
+  private entries: ZipEntry[] = [];
+  private readonly stamp = dosDateTime(new Date());
+
+  private emit(buf: Buffer): Buffer {
+    this.offset += buf.length;
+    return buf;
+  }
+
+  *entry(path: string, parts: Iterable<string>): Generator<Buffer> {
+    const name = Buffer.from(path, "utf8");
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4);
+    header.writeUInt16LE(FLAGS, 6);
+    header.writeUInt16LE(DEFLATE, 8);
+    header.writeUInt16LE(this.stamp.time, 10);
+    header.writeUInt16LE(this.stamp.date, 12);
+    header.writeUInt16LE(name.length, 26);
+    const entry: ZipEntry = { name, crc: 0, compressed: 0, size: 0, offset: this.offset };
+    yield this.emit(Buffer.concat([header, name]));
+
+    for (const part of parts) {
+      const raw = Buffer.from(part, "utf8");
+      if (!raw.length) continue;
+      entry.crc = crc32(raw, entry.crc);
+      entry.size += raw.length;
+      const chunk = zlib.deflateRawSync(raw, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+      entry.compressed += chunk.length;
+      yield this.emit(chunk);
+    }
+    entry.compressed += FINAL_BLOCK.length;
+    yield this.emit(FINAL_BLOCK);
+
+    const descriptor = Buffer.alloc(16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(entry.crc, 4);
+    descriptor.writeUInt32LE(entry.compressed, 8);
+    descriptor.writeUInt32LE(entry.size, 12);
+    yield this.emit(descriptor);
+    this.entries.push(entry);
+  }
+
+  /** Central directory + end record. */
+  finish(): Buffer {
+    const start = this.offset;
+    const records = this.entries.map(e => {
+      const h = Buffer.alloc(46);
+      h.writeUInt32LE(0x02014b50, 0);
+      h.writeUInt16LE(20, 4);
+      h.writeUInt16LE(20, 6);
+      h.writeUInt16LE(FLAGS, 8);
+      h.writeUInt16LE(DEFLATE, 10);
+      h.writeUInt16LE(this.stamp.time, 12);
+      h.writeUInt16LE(this.stamp.date, 14);
+      h.writeUInt32LE(e.crc, 16);
+      h.writeUInt32LE(e.compressed, 20);
+      h.writeUInt32LE(e.size, 24);
+      h.writeUInt16LE(e.name.length, 28);
+      h.writeUInt32LE(e.offset, 42);
+      return Buffer.concat([h, e.name]);
+    });
+    const directory = Buffer.concat(records);
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(directory.length, 12);
+    end.writeUInt32LE(start, 16);
+    return this.emit(Buffer.concat([directory, end]));
+  }
+}
+
+// ---------- SpreadsheetML ----------
+const XML_HEAD = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+const NS_MAIN = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const NS_REL = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+const NS_PKG_REL = "http://schemas.openxmlformats.org/package/2006/relationships";
+// Excel's per-cell text limit
+const MAX_CELL_CHARS = 32767;
+
+function escapeXml(s: string): string {
+  return s
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function cellXml(v: Cell, style = 0): string {
+  const s = style ? ` s="${style}"` : "";
+  // cells carry no `r` reference, so blanks still need an element to keep columns aligned
+  if (v === null || v === undefined || v === "") return "<c/>";
+  if (typeof v === "number") return Number.isFinite(v) ? `<c${s}><v>${v}</v></c>` : "<c/>";
+  if (typeof v === "boolean") return `<c t="b"${s}><v>${v ? 1 : 0}</v></c>`;
+  return `<c t="inlineStr"${s}><is><t xml:space="preserve">${escapeXml(v.slice(0, MAX_CELL_CHARS))}</t></is></c>`;
+}
+
+function sheetName(name: string): string {
+  return name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Sheet1";
+}
+
+const STATIC_PARTS = (name: string): [string, string][] => [
+  ["[Content_Types].xml", XML_HEAD +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    "</Types>"],
+  ["_rels/.rels", XML_HEAD +
+    `<Relationships xmlns="${NS_PKG_REL}">` +
+    `<Relationship Id="rId1" Type="${NS_REL}/officeDocument" Target="xl/workbook.xml"/>` +
+    "</Relationships>"],
+  ["xl/workbook.xml", XML_HEAD +
+    `<workbook xmlns="${NS_MAIN}" xmlns:r="${NS_REL}">` +
+    `<sheets><sheet name="${escapeXml(sheetName(name))}" sheetId="1" r:id="rId1"/></sheets>` +
+    "</workbook>"],
+  ["xl/_rels/workbook.xml.rels", XML_HEAD +
+    `<Relationships xmlns="${NS_PKG_REL}">` +
+    `<Relationship Id="rId1" Type="${NS_REL}/worksheet" Target="worksheets/sheet1.xml"/>` +
+    `<Relationship Id="rId2" Type="${NS_REL}/styles" Target="styles.xml"/>` +
+    "</Relationships>"],
+  // style 1 = bold (header row)
+  ["xl/styles.xml", XML_HEAD +
+    `<styleSheet xmlns="${NS_MAIN}">` +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+    "</styleSheet>"],
+];
+
+function* sheetParts(header: string[], batches: Iterable<Cell[][]>): Generator<string> {
+  // frozen, bold header row
+  yield XML_HEAD +
+    `<worksheet xmlns="${NS_MAIN}">` +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData><row>${header.map(h => cellXml(h, 1)).join("")}</row>`;
+  for (const batch of batches) {
+    yield batch.map(row => `<row>${row.map(v => cellXml(v)).join("")}</row>`).join("");
+  }
+  yield "</sheetData></worksheet>";
+}
+
+/** Bytes of a one-sheet workbook; `batches` is consumed lazily as the output is read. */
+export function* xlsxChunks(name: string, header: string[], batches: Iterable<Cell[][]>): Generator<Buffer> {
+  const zip = new ZipWriter();
+  for (const [path, xml] of STATIC_PARTS(name)) yield* zip.entry(path, [xml]);
+  yield* zip.entry("xl/worksheets/sheet1.xml", sheetParts(header, batches));
+  yield zip.finish();
+}
@@ -0,0 +1,11 @@
+import path from "node:path";
+import { defineConfig } from "vitest/config";
+
+// Unit tests for the server-side libraries: plain Node, next to the module they cover (src/**/*.test.ts)
+export default defineConfig({
+  resolve: { alias: { "@": path.resolve(__dirname, "src") } },
+  test: {
+    environment: "node",
+    include: ["src/**/*.test.ts"],
+  },
+});